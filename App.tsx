@@ -2,41 +2,130 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import ControlPanel from './components/ControlPanel';
 import PreviewCanvas from './components/PreviewCanvas';
-import { AppSettings, MaskGrid } from './types';
-import { buildSvgFromMask, buildDxfFromMask } from './utils/generators';
-import { getA3Dimensions } from './constants';
+import { AppSettings, BridgeReport, BridgeSegment, DrcViolation, ManualBridge, PackedMask } from './types';
+import { createPipeline, ExportFormat, isJobCancelled, MaskLayer } from './utils/pipeline';
+import { checkExportScale, expectedExportExtents } from './utils/generators';
+import { DEFAULT_PREPROCESS } from './utils/preprocess';
+import { getPageSizeMm, getPageLabel, getPageDimensions } from './constants';
 import { Layers, Wand2, Sparkles } from 'lucide-react';
 import { GoogleGenAI } from "@google/genai";
 
 const DEFAULT_SETTINGS: AppSettings = {
   threshold: 140,
+  thresholdMode: 'manual',
+  adaptiveWindow: 15,
+  adaptiveOffset: 8,
+  sauvolaK: 0.3,
+  preprocess: DEFAULT_PREPROCESS,
   scale: 90,
   imageSize: 90,
   smooth: 1, 
   vectorSmoothing: 1,
+  curveFit: { mode: 'smooth', cornerAngle: 60, tolerance: 0.1, primitives: false },
   stencilMode: true,
   bezierMode: false,
+  traceMode: 'outline',
+  subpixelContours: false,
+  optimizeCutOrder: true,
+  kerf: { width: 0, join: 'round', keep: 'opening' },
+  minFeatureWidth: 0.3,
   bridgeWidth: 2,
   bridgeCount: 2,
+  vectorBridges: false,
   designName: '',
   orientation: 'portrait',
+  pageSize: 'a3',
+  customPageSize: { width: 300, height: 300 },
   manualBridges: [],
+  lockedBridges: [],
+  removedBridges: [],
   activeTool: 'pointer',
   brushSize: 5,
-  erasedPaths: []
+  erasedPaths: [],
+  gcode: {
+    toolMode: 'laser',
+    feedRate: 1200,
+    power: 1000,
+    penUp: 'M5',
+    penDown: 'M3 S1000',
+    passes: 1,
+    origin: 'bottom-left',
+    flipY: false
+  },
+  hpgl: {
+    unitsPerMm: 40,
+    overcut: 1,
+    bladeOffset: 0.25,
+    startAtCorner: true
+  },
+  dxf: {
+    version: 'r12',
+    splines: false,
+    bridgeLayer: false
+  },
+  layers: {
+    styles: {
+      cut: { color: '#ff0000', strokeWidth: 0.28 },
+      engrave: { color: '#000000', strokeWidth: 0.28 },
+      score: { color: '#0000ff', strokeWidth: 0.28 }
+    },
+    outlines: 'cut',
+    fills: null,
+    offsets: null,
+    offsetDistance: 1
+  },
+  svg: {
+    mode: 'lines',
+    fillColor: '#000000',
+    background: null
+  },
+  posterize: {
+    enabled: false,
+    levels: 3,
+    method: 'luminance',
+    hiddenLayers: [],
+    registrationMarks: true
+  },
+  colorKey: {
+    enabled: false,
+    colors: [],
+    space: 'lab',
+    tolerance: 20,
+    removeBackground: false
+  }
+};
+
+const EXPORT_FILE_TYPES: Record<ExportFormat, { description: string; mime: string; blobType?: string; extensions: string[] }> = {
+  svg: { description: 'SVG Bestand', mime: 'image/svg+xml', blobType: 'image/svg+xml;charset=utf-8', extensions: ['.svg'] },
+  dxf: { description: 'DXF Bestand', mime: 'application/dxf', extensions: ['.dxf'] },
+  gcode: { description: 'G-code Bestand', mime: 'text/x-gcode', extensions: ['.gcode', '.nc'] },
+  hpgl: { description: 'HPGL Bestand', mime: 'application/vnd.hp-hpgl', extensions: ['.plt', '.hpgl'] }
 };
 
 function App() {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [originalImage, setOriginalImage] = useState<HTMLImageElement | null>(null);
-  const maskRef = useRef<MaskGrid | null>(null);
+  const [pipeline] = useState(createPipeline);
+  const maskRef = useRef<PackedMask | null>(null);
+  const posterLayersRef = useRef<MaskLayer[] | null>(null);
+  const [posterTints, setPosterTints] = useState<string[]>([]);
   const [hasMask, setHasMask] = useState(false);
+  const [appliedThreshold, setAppliedThreshold] = useState<number | null>(null);
+  const [maskVersion, setMaskVersion] = useState(0);
+  const [bridgeReport, setBridgeReport] = useState<BridgeReport | null>(null);
+  const [selectedBridgeId, setSelectedBridgeId] = useState<string | null>(null);
+  const [violations, setViolations] = useState<DrcViolation[]>([]);
+  const [focusedViolation, setFocusedViolation] = useState<{ index: number } | null>(null);
+  const drcResultRef = useRef<Promise<DrcViolation[]>>(Promise.resolve([]));
   const [isAiProcessing, setIsAiProcessing] = useState(false);
 
   // History for Undo/Redo of erasedPaths
   const [history, setHistory] = useState<any[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
 
+  // The worker is recreated lazily, so disposing here is safe under StrictMode remounts
+  useEffect(() => () => pipeline.dispose(), [pipeline]);
+
   useEffect(() => {
     // Initial history state
     setHistory([[]]);
@@ -75,7 +164,7 @@ function App() {
       const img = new Image();
       img.onload = () => {
         setOriginalImage(img);
-        setSettings(prev => ({ ...prev, manualBridges: [], erasedPaths: [] }));
+        setSettings(prev => ({ ...prev, manualBridges: [], lockedBridges: [], removedBridges: [], erasedPaths: [] }));
         setHistory([[]]);
         setHistoryIndex(0);
       };
@@ -165,7 +254,7 @@ function App() {
         newImg.onload = () => {
           setOriginalImage(newImg);
           setIsAiProcessing(false);
-          setSettings(prev => ({ ...prev, manualBridges: [], erasedPaths: [] }));
+          setSettings(prev => ({ ...prev, manualBridges: [], lockedBridges: [], removedBridges: [], erasedPaths: [] }));
           setHistory([[]]);
           setHistoryIndex(0);
         };
@@ -180,48 +269,86 @@ function App() {
     }
   };
 
-  const handleMaskReady = useCallback((mask: MaskGrid) => {
+  const handleMaskReady = useCallback((mask: PackedMask, threshold: number | null, bridges: BridgeReport, layers: MaskLayer[] | null) => {
     maskRef.current = mask;
+    posterLayersRef.current = layers;
+    setPosterTints(layers ? layers.map(layer => layer.tint) : []);
+    setAppliedThreshold(threshold);
+    setBridgeReport(bridges);
     setHasMask(true);
+    setMaskVersion(v => v + 1);
   }, []);
 
-  const handleManualBridgeToggle = useCallback((x: number, y: number) => {
-    setSettings(prev => {
-        const threshold = 5;
-        const existingIdx = prev.manualBridges.findIndex(b => 
-            Math.sqrt(Math.pow(b.x - x, 2) + Math.pow(b.y - y, 2)) < threshold
-        );
-
-        if (existingIdx > -1) {
-            const next = [...prev.manualBridges];
-            next.splice(existingIdx, 1);
-            return { ...prev, manualBridges: next };
-        } else {
-            return { ...prev, manualBridges: [...prev.manualBridges, { x, y }] };
-        }
+  // Manufacturability check on every new mask or page size. The old violations are cleared right away
+  // and export awaits drcResultRef, so a mask is never judged by the result of an older one.
+  const { width: docWidth, height: docHeight } = getPageDimensions(settings);
+  const drcKerf = settings.traceMode === 'outline' && settings.kerf.width > 0 ? settings.kerf : null;
+  useEffect(() => {
+    const mask = maskRef.current;
+    setViolations([]);
+    setFocusedViolation(null);
+    if (!mask || (settings.minFeatureWidth <= 0 && !drcKerf)) {
+      pipeline.cancel('drc');
+      drcResultRef.current = Promise.resolve([]);
+      return;
+    }
+    const data = mask.data.slice();
+    drcResultRef.current = pipeline.run('drc', {
+      mask: { ...mask, data },
+      docWidth,
+      docHeight,
+      minFeatureWidth: settings.minFeatureWidth,
+      stencilMode: settings.stencilMode,
+      kerf: drcKerf
+    }, { transfer: [data.buffer] }).then(({ violations }) => {
+      setViolations(violations);
+      return violations;
+    }).catch(err => {
+      if (!isJobCancelled(err)) console.error("Manufacturability check failed:", err);
+      return [];
     });
-  }, []);
+  }, [maskVersion, settings.minFeatureWidth, settings.stencilMode, drcKerf, docWidth, docHeight, pipeline]);
+
+  // A click on an existing bridge selects it, anywhere else places a new one
+  const handleManualBridgeClick = useCallback((x: number, y: number) => {
+    const threshold = 5;
+    const existing = settings.manualBridges.find(b => 
+        Math.sqrt(Math.pow(b.x - x, 2) + Math.pow(b.y - y, 2)) < threshold
+    );
+    if (existing) {
+      setSelectedBridgeId(existing.id);
+      return;
+    }
+    const bridge: ManualBridge = {
+      id: `bridge-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+      x,
+      y,
+      angle: null,
+      width: null
+    };
+    setSettings(prev => ({ ...prev, manualBridges: [...prev.manualBridges, bridge] }));
+    setSelectedBridgeId(bridge.id);
+  }, [settings.manualBridges]);
 
   const handleErasedPathsUpdate = useCallback((newPaths: any[]) => {
     setSettings(prev => ({ ...prev, erasedPaths: newPaths }));
     pushHistory(newPaths);
   }, [pushHistory]);
 
-  const getCleanFilename = (ext: string) => {
+  const getCleanFilename = (ext: string, suffix = '') => {
     const baseName = settings.designName.trim() || 'ontwerp';
-    return `${baseName}.${ext}`;
+    return `${baseName}${suffix}.${ext}`;
   };
 
-  const saveFile = async (blob: Blob, filename: string, type: 'svg' | 'dxf') => {
+  const saveFile = async (blob: Blob, filename: string, type: ExportFormat) => {
+    const fileType = EXPORT_FILE_TYPES[type];
     if (typeof window.showSaveFilePicker === 'function') {
       try {
         const handle = await window.showSaveFilePicker({
           suggestedName: filename,
           types: [{
-            description: type === 'svg' ? 'SVG Bestand' : 'DXF Bestand',
-            accept: type === 'svg' 
-              ? { 'image/svg+xml': ['.svg'] } 
-              : { 'application/dxf': ['.dxf'] } 
+            description: fileType.description,
+            accept: { [fileType.mime]: fileType.extensions }
           }]
         });
         const writable = await handle.createWritable();
@@ -245,22 +372,76 @@ function App() {
     }, 100);
   };
 
-  const handleDownloadSvg = async () => {
-    if (!maskRef.current) return;
-    const content = buildSvgFromMask(maskRef.current, settings);
-    const blob = new Blob([content], { type: 'image/svg+xml;charset=utf-8' });
-    await saveFile(blob, getCleanFilename('svg'), 'svg');
+  // Bridges are only cut out with vector bridges on; the DXF only draws them on the bridge layer then, or on request
+  const buildExport = async (format: ExportFormat, mask: PackedMask, bridges: BridgeSegment[]): Promise<string | null> => {
+    const data = mask.data.slice();
+    try {
+      const { content } = await pipeline.run('export', { mask: { ...mask, data }, settings, format, bridges }, { transfer: [data.buffer] });
+      // Nothing traced: the caller reports that, it is not a scale problem
+      if (!content) return content;
+      const scale = checkExportScale(content, format, getPageSizeMm(settings), expectedExportExtents(mask, settings, bridges));
+      if (!scale.ok && !confirm(`Schaalcontrole mislukt: ${scale.message}\n\nToch opslaan?`)) return null;
+      return content;
+    } catch (err) {
+      if (isJobCancelled(err)) return null;
+      console.error("Export failed:", err);
+      alert("Exporteren mislukt. " + (err instanceof Error ? err.message : ""));
+      return null;
+    }
   };
 
-  const handleDownloadDxf = async () => {
+  const downloadExport = async (format: ExportFormat) => {
     if (!maskRef.current) return;
-    const content = buildDxfFromMask(maskRef.current, settings);
-    const blob = new Blob([content], { type: 'application/dxf' });
-    await saveFile(blob, getCleanFilename('dxf'), 'dxf');
+    // A newer mask replaces the pending check, so wait until the one for the current mask has answered
+    let pending: Promise<DrcViolation[]>;
+    let drcViolations: DrcViolation[];
+    do {
+      pending = drcResultRef.current;
+      drcViolations = await pending;
+    } while (pending !== drcResultRef.current);
+    const mask = maskRef.current;
+    if (!mask) return;
+    const narrow = drcViolations.filter(v => v.kind !== 'kerf').length;
+    const kerfed = drcViolations.length - narrow;
+    const problems = [
+      narrow ? `${narrow} onderdelen die smaller zijn dan ${settings.minFeatureWidth} mm en mogelijk niet goed gesneden worden` : '',
+      kerfed ? `${kerfed} onderdelen die dunner zijn dan de kerf van ${settings.kerf.width} mm en door de kerfcompensatie verdwijnen of dichtgaan` : ''
+    ].filter(p => p);
+    if (problems.length && !confirm(`Het ontwerp heeft ${problems.join(' en ')}.\n\nToch exporteren?`)) return;
+    const fileType = EXPORT_FILE_TYPES[format];
+    const ext = fileType.extensions[0].slice(1);
+
+    // A posterized design gives one file per visible layer, numbered from dark to light
+    const layers = posterLayersRef.current;
+    const files = layers
+      ? layers
+          .map((layer, i) => ({ mask: layer.mask, bridges: layer.bridges.bridges, filename: getCleanFilename(ext, `-laag${i + 1}`) }))
+          .filter((_, i) => !settings.posterize.hiddenLayers.includes(i))
+      : [{ mask, bridges: bridgeReport ? bridgeReport.bridges : [], filename: getCleanFilename(ext) }];
+    if (!files.length) {
+      alert("Alle lagen staan uit. Zet minstens één laag aan om te exporteren.");
+      return;
+    }
+    const empty: string[] = [];
+    for (const file of files) {
+      const content = await buildExport(format, file.mask, file.bridges);
+      if (content === null) return;
+      if (!content) {
+        empty.push(file.filename);
+        continue;
+      }
+      const blob = new Blob([content], { type: fileType.blobType ?? fileType.mime });
+      await saveFile(blob, file.filename, format);
+    }
+    if (empty.length) {
+      alert(empty.length === files.length
+        ? "Niets om te exporteren: het ontwerp heeft geen contouren."
+        : `Niets om te exporteren in ${empty.join(', ')}: deze lagen hebben geen contouren en zijn overgeslagen.`);
+    }
   };
 
   const canDownload = hasMask && settings.designName.trim().length > 0;
-  const { width: docW, height: docH } = getA3Dimensions(settings.orientation);
+  const pageMm = getPageSizeMm(settings);
 
   return (
     <div className={`flex flex-col h-[100dvh] bg-neutral-900 overflow-hidden ${isAiProcessing ? 'cursor-wait' : ''}`}>
@@ -272,7 +453,7 @@ function App() {
             </div>
             <div>
               <h1 className="text-sm md:text-lg font-bold text-white tracking-tight leading-tight">Pro Bitmap → Vector</h1>
-              <p className="text-[9px] md:text-[11px] font-medium text-neutral-400 uppercase tracking-wider">A3 Studio Editie</p>
+              <p className="text-[9px] md:text-[11px] font-medium text-neutral-400 uppercase tracking-wider">Studio Editie</p>
             </div>
           </div>
           <div className="hidden md:flex items-center gap-4 text-xs font-medium text-neutral-500">
@@ -289,10 +470,15 @@ function App() {
                 <PreviewCanvas 
                   originalImage={originalImage} 
                   settings={settings}
+                  pipeline={pipeline}
                   onSettingsChange={setSettings}
                   onMaskReady={handleMaskReady}
+                  violations={violations}
+                  focusedViolation={focusedViolation}
                   onToggleViewMode={() => setSettings(prev => ({ ...prev, bezierMode: !prev.bezierMode }))}
-                  onManualBridgeToggle={handleManualBridgeToggle}
+                  onManualBridgeClick={handleManualBridgeClick}
+                  selectedBridgeId={selectedBridgeId}
+                  onSelectBridge={setSelectedBridgeId}
                   onErasedPathsUpdate={handleErasedPathsUpdate}
                   onUndo={handleUndo}
                   onRedo={handleRedo}
@@ -302,7 +488,7 @@ function App() {
                 
                 <div className="absolute top-4 left-4 flex gap-2 pointer-events-none">
                     <div className="bg-neutral-900/90 backdrop-blur border border-neutral-700 text-neutral-300 text-[10px] px-2 py-1 rounded-full font-medium shadow-xl">
-                        A3 ({docW} x {docH}mm)
+                        {getPageLabel(settings)} ({Number(pageMm.width.toFixed(1))} x {Number(pageMm.height.toFixed(1))}mm)
                     </div>
                 </div>
 
@@ -328,10 +514,20 @@ function App() {
             settings={settings}
             onSettingsChange={setSettings}
             onImageUpload={handleImageUpload}
-            onDownloadSvg={handleDownloadSvg}
-            onDownloadDxf={handleDownloadDxf}
+            onDownloadSvg={() => downloadExport('svg')}
+            onDownloadDxf={() => downloadExport('dxf')}
+            onDownloadGcode={() => downloadExport('gcode')}
+            onDownloadHpgl={() => downloadExport('hpgl')}
             onAiEdit={handleAiEdit}
             canDownload={canDownload}
+            appliedThreshold={appliedThreshold}
+            bridgeReport={settings.stencilMode ? bridgeReport : null}
+            selectedBridgeId={selectedBridgeId}
+            onSelectBridge={setSelectedBridgeId}
+            violations={violations}
+            focusedViolation={focusedViolation?.index ?? null}
+            onFocusViolation={(index) => setFocusedViolation({ index })}
+            posterTints={posterTints}
             imageLoaded={!!originalImage}
             isAiProcessing={isAiProcessing}
           />
@@ -0,0 +1,153 @@
+/**
+ * Mask and contour generation on the packed MaskGrid against the boolean[][] grid it replaced.
+ * The legacy functions below are the old implementations, kept only as a baseline.
+ * Run with `npm run bench`.
+ */
+import { MaskGrid } from '../types';
+import { extractContourFromLabel, extractContourHierarchy, renderMaskPreview, smoothMask } from '../utils/processing';
+import { maskFromTest } from '../utils/mask';
+
+type LegacyMask = boolean[][];
+
+// A3 landscape at 100% detail scale
+const W = 1191, H = 842;
+const RUNS = 7;
+
+// Dots, rings and lines of text-like bars with some noise on the edges
+function syntheticLuminance(w: number, h: number): Float32Array {
+  const lum = new Float32Array(w * h);
+  let seed = 1;
+  const random = () => ((seed = (seed * 16807) % 2147483647) / 2147483647);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const ring = Math.abs(Math.hypot((x % 160) - 80, (y % 160) - 80) - 50) < 12;
+      const dot = Math.hypot((x % 40) - 20, (y % 40) - 20) < 6;
+      const bar = y % 60 > 40 && x % 25 < 18;
+      lum[y * w + x] = (ring || dot || bar ? 40 : 220) + (random() - 0.5) * 60;
+    }
+  }
+  return lum;
+}
+
+function legacyMaskFromTest(w: number, h: number, isDark: (idx: number) => boolean): LegacyMask {
+  const mask: LegacyMask = new Array(h);
+  for (let y = 0; y < h; y++) {
+    mask[y] = new Array(w);
+    for (let x = 0; x < w; x++) mask[y][x] = isDark(y * w + x);
+  }
+  return mask;
+}
+
+function legacySmoothMask(mask: LegacyMask, w: number, h: number, iterations: number) {
+  for (let it = 0; it < iterations; it++) {
+    const next: boolean[][] = Array.from({ length: h }, () => Array(w).fill(false));
+    for (let y = 1; y < h - 1; y++) {
+      for (let x = 1; x < w - 1; x++) {
+        let cnt = 0;
+        for (let dy = -1; dy <= 1; dy++) for (let dx = -1; dx <= 1; dx++) if (mask[y + dy][x + dx]) cnt++;
+        next[y][x] = cnt >= 5;
+      }
+    }
+    for (let y = 0; y < h; y++) for (let x = 0; x < w; x++) mask[y][x] = next[y][x];
+  }
+}
+
+const NEIGHBORS_4 = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const NEIGHBORS_8 = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+function legacyContourHierarchy(mask: LegacyMask, w: number, h: number, docWidth: number, docHeight: number) {
+  const labels = new Int32Array(w * h).fill(-1);
+  const anchors: number[] = [];
+  const nodes: { points: number[][]; hole: boolean; parent: number }[] = [];
+  const queue = new Int32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (labels[y * w + x] !== -1) continue;
+      const label = anchors.length;
+      const foreground = mask[y][x];
+      const neighbors = foreground ? NEIGHBORS_4 : NEIGHBORS_8;
+      let touchesBorder = false;
+      let head = 0, tail = 0;
+      labels[y * w + x] = label;
+      queue[tail++] = y * w + x;
+      while (head < tail) {
+        const idx = queue[head++];
+        const cx = idx % w, cy = (idx - cx) / w;
+        if (cx === 0 || cy === 0 || cx === w - 1 || cy === h - 1) touchesBorder = true;
+        for (const [dx, dy] of neighbors) {
+          const nx = cx + dx, ny = cy + dy;
+          if (nx >= 0 && ny >= 0 && nx < w && ny < h && mask[ny][nx] === foreground && labels[ny * w + nx] === -1) {
+            labels[ny * w + nx] = label;
+            queue[tail++] = ny * w + nx;
+          }
+        }
+      }
+      const parent = y > 0 ? anchors[labels[(y - 1) * w + x]] : -1;
+      if (tail > 4 && (foreground || !touchesBorder)) {
+        anchors.push(nodes.length);
+        nodes.push({ points: extractContourFromLabel(labels, label, x, y, w, h, docWidth, docHeight), hole: !foreground, parent });
+      } else {
+        anchors.push(!foreground && touchesBorder ? -1 : parent);
+      }
+    }
+  }
+  return nodes;
+}
+
+function legacyRenderMaskPreview(mask: LegacyMask, w: number, h: number) {
+  const out = new Uint8ClampedArray(w * h * 4);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const idx = (y * w + x) * 4;
+      const val = mask[y][x] ? 0 : 255;
+      out[idx] = val;
+      out[idx + 1] = val;
+      out[idx + 2] = val;
+      out[idx + 3] = 255;
+    }
+  }
+  return out;
+}
+
+// The old worker packed every mask into bytes for the transfer and unpacked it again on the way in
+function legacyRoundTrip(mask: LegacyMask, w: number, h: number): LegacyMask {
+  const data = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) for (let x = 0; x < w; x++) if (mask[y][x]) data[y * w + x] = 1;
+  return legacyMaskFromTest(w, h, idx => data[idx] === 1);
+}
+
+function median(fn: () => void): number {
+  const times: number[] = [];
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now();
+    fn();
+    times.push(performance.now() - start);
+  }
+  return times.sort((a, b) => a - b)[RUNS >> 1];
+}
+
+const lum = syntheticLuminance(W, H);
+const isDark = (idx: number) => lum[idx] < 128;
+const legacy = legacyMaskFromTest(W, H, isDark);
+const packed: MaskGrid = maskFromTest(W, H, isDark);
+legacySmoothMask(legacy, W, H, 1);
+smoothMask(packed, W, H, 1);
+
+const legacyContours = legacyContourHierarchy(legacy, W, H, W, H);
+const packedContours = extractContourHierarchy(packed, W, H, W, H);
+if (JSON.stringify(legacyContours) !== JSON.stringify(packedContours)) throw new Error('Contours differ between the two mask types');
+
+const rows: [string, number, number][] = [
+  ['Drempel (masker maken)', median(() => legacyMaskFromTest(W, H, isDark)), median(() => maskFromTest(W, H, isDark))],
+  ['Bitmap-afvlakking x2', median(() => legacySmoothMask(legacyMaskFromTest(W, H, isDark), W, H, 2)), median(() => smoothMask(maskFromTest(W, H, isDark), W, H, 2))],
+  ['Contourhierarchie', median(() => legacyContourHierarchy(legacy, W, H, W, H)), median(() => extractContourHierarchy(packed, W, H, W, H))],
+  ['Voorbeeld RGBA', median(() => legacyRenderMaskPreview(legacy, W, H)), median(() => renderMaskPreview(packed, W, H))],
+  ['Worker-overdracht', median(() => legacyRoundTrip(legacy, W, H)), 0]
+];
+
+console.log(`Masker ${W}x${H} (${packedContours.length} contouren), mediaan van ${RUNS} runs`);
+console.log('Stap'.padEnd(26) + 'boolean[][]'.padStart(14) + 'Uint8Array'.padStart(14) + 'Versnelling'.padStart(14));
+for (const [name, before, after] of rows) {
+  const speedup = after > 0 ? `${(before / after).toFixed(1)}x` : '-';
+  console.log(name.padEnd(26) + `${before.toFixed(1)} ms`.padStart(14) + `${after.toFixed(1)} ms`.padStart(14) + speedup.padStart(14));
+}
@@ -1,8 +1,10 @@
 
 import React, { useState } from 'react';
-import { AppSettings } from '../types';
+import { AppSettings, PageSizeId, ThresholdMode, PreprocessSettings, GcodeSettings, HpglSettings, DxfSettings, DxfVersion, SvgMode, SvgSettings, PosterizeMethod, PosterizeSettings, ColorKeySettings, ColorSpace, KerfSettings, LayerSettings, LayerStyle, OutputLayer, CurveFitMode, CurveFitSettings, OriginCorner, DrcViolation, BridgeInfo, BridgeReport, ManualBridge } from '../types';
+import { DEFAULT_PREPROCESS } from '../utils/preprocess';
+import { PAGE_SIZE_PRESETS, CUSTOM_PAGE_MIN_MM, CUSTOM_PAGE_MAX_MM, getPageLabel } from '../constants';
 // Fixed: Replaced non-existent LayoutPortrait and LayoutLandscape with Smartphone and Monitor icons from lucide-react
-import { Upload, Download, Image as ImageIcon, Layers, PenTool, ChevronDown, ChevronUp, Smartphone, Monitor, Wand2, Sparkles, Loader2 } from 'lucide-react';
+import { Upload, Download, Image as ImageIcon, Layers, PenTool, ChevronDown, ChevronUp, Smartphone, Monitor, Wand2, Sparkles, Loader2, SlidersHorizontal, RotateCcw, Cpu, Scissors, ShieldAlert, Lock, Unlock, Trash2, FileCode, PaintBucket, Palette, Eye, EyeOff, Pipette, X } from 'lucide-react';
 
 interface ControlPanelProps {
   settings: AppSettings;
@@ -10,12 +12,94 @@ interface ControlPanelProps {
   onImageUpload: (file: File) => void;
   onDownloadSvg: () => void;
   onDownloadDxf: () => void;
+  onDownloadGcode: () => void;
+  onDownloadHpgl: () => void;
   onAiEdit: (prompt: string) => Promise<void>;
   canDownload: boolean;
+  appliedThreshold: number | null;
+  bridgeReport: BridgeReport | null;
+  selectedBridgeId: string | null;
+  onSelectBridge: (id: string | null) => void;
+  violations: DrcViolation[];
+  focusedViolation: number | null;
+  onFocusViolation: (index: number) => void;
+  posterTints: string[]; // Mean colour of each posterized layer, dark to light; empty when not posterizing
   imageLoaded: boolean;
   isAiProcessing: boolean;
 }
 
+const THRESHOLD_MODE_LABELS: Record<ThresholdMode, string> = {
+  manual: 'Handmatig',
+  otsu: 'Automatisch (Otsu)',
+  adaptiveMean: 'Adaptief: gemiddelde',
+  adaptiveGaussian: 'Adaptief: Gaussisch',
+  sauvola: 'Adaptief: Sauvola'
+};
+
+const CURVE_FIT_MODES: { mode: CurveFitMode; label: string; title: string }[] = [
+  { mode: 'smooth', label: 'Vloeiend', title: 'Gelijkmatig gladgestreken curves' },
+  { mode: 'corners', label: 'Hoeken behouden', title: 'Scherpe hoeken, rechte lijnen en passende Bézier-curves' }
+];
+
+const OUTPUT_LAYER_LABELS: Record<OutputLayer, string> = {
+  cut: 'Snijden',
+  engrave: 'Graveren',
+  score: 'Ritsen'
+};
+
+// Geometry that can be assigned to a layer; fills and offsets can also be left out
+const LAYER_ASSIGNMENTS: { key: 'outlines' | 'fills' | 'offsets'; label: string; title: string }[] = [
+  { key: 'outlines', label: 'Contouren', title: 'De overgetrokken contouren of middellijnen' },
+  { key: 'fills', label: 'Gevulde vlakken', title: 'De donkere vlakken gevuld, voor rastergraveren' },
+  { key: 'offsets', label: 'Offsetlijnen', title: 'Lijnen op een vaste afstand rond de contouren' }
+];
+
+const POSTERIZE_METHODS: { method: PosterizeMethod; label: string; title: string }[] = [
+  { method: 'luminance', label: 'Helderheid', title: 'Gelijke stappen in helderheid, na de voorbewerking' },
+  { method: 'kmeans', label: 'Kleuren', title: 'Groepen van gelijke kleuren (k-means), voor gekleurde afbeeldingen' }
+];
+
+const COLOR_SPACES: { space: ColorSpace; label: string; title: string }[] = [
+  { space: 'lab', label: 'Lab (ΔE)', title: 'Afstand zoals het oog kleurverschil ziet' },
+  { space: 'hsv', label: 'HSV', title: 'Afstand in tint, verzadiging en helderheid' }
+];
+
+const SVG_MODES: { mode: SvgMode; label: string; title: string }[] = [
+  { mode: 'lines', label: 'Lijnen', title: 'Lijnen per laag, om te snijden' },
+  { mode: 'filled', label: 'Gevuld', title: 'Gevulde vlakken met gaten, om te printen, zeefdrukken of graveren' }
+];
+
+const DXF_VERSIONS: { version: DxfVersion; label: string; title: string }[] = [
+  { version: 'r12', label: 'R12', title: 'POLYLINE en CIRCLE, leesbaar voor vrijwel alle CAD- en snijsoftware' },
+  { version: 'r2000', label: 'R2000+', title: 'LWPOLYLINE, ELLIPSE en optioneel SPLINE, met volledige tabellen' }
+];
+
+const PREPROCESS_SLIDERS: { key: Exclude<keyof PreprocessSettings, 'invert'>; label: string; min: number; max: number; step: number; unit?: string }[] = [
+  { key: 'brightness', label: 'Helderheid', min: -100, max: 100, step: 1 },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+  { key: 'gamma', label: 'Gamma', min: 0.2, max: 3, step: 0.05 },
+  { key: 'denoise', label: 'Ruis verwijderen (mediaan)', min: 0, max: 1, step: 0.05, unit: 'mm' },
+  { key: 'blur', label: 'Vervagen', min: 0, max: 2, step: 0.1, unit: 'mm' },
+  { key: 'sharpen', label: 'Verscherpen', min: 0, max: 3, step: 0.1 }
+];
+
+// Longer lists are truncated; the markers in the preview still show every violation
+const MAX_LISTED_VIOLATIONS = 200;
+
+const VIOLATION_KINDS: Record<DrcViolation['kind'], { label: string; dot: string }> = {
+  opening: { label: 'Smalle opening', dot: 'bg-fuchsia-400' },
+  material: { label: 'Dun materiaal', dot: 'bg-amber-400' },
+  kerf: { label: 'Dunner dan kerf', dot: 'bg-sky-400' }
+};
+
+const ORIGIN_LABELS: Record<OriginCorner, string> = {
+  'bottom-left': 'Linksonder',
+  'top-left': 'Linksboven',
+  'bottom-right': 'Rechtsonder',
+  'top-right': 'Rechtsboven',
+  'center': 'Midden'
+};
+
 const SectionHeader = ({ title, icon: Icon, isOpen, onClick, badge }: any) => (
   <button 
     onClick={onClick}
@@ -40,16 +124,35 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onImageUpload,
   onDownloadSvg,
   onDownloadDxf,
+  onDownloadGcode,
+  onDownloadHpgl,
   onAiEdit,
   canDownload,
+  appliedThreshold,
+  bridgeReport,
+  selectedBridgeId,
+  onSelectBridge,
+  violations,
+  focusedViolation,
+  onFocusViolation,
+  posterTints,
   imageLoaded,
   isAiProcessing,
 }) => {
   const [openSections, setOpenSections] = useState({
     ai: true,
+    preprocess: false,
     image: true,
+    posterize: false,
+    colorKey: false,
     stencil: false,
-    vector: false
+    vector: false,
+    drc: false,
+    machine: false,
+    cutter: false,
+    dxf: false,
+    layers: false,
+    svg: false
   });
   const [aiPrompt, setAiPrompt] = useState("");
 
@@ -61,6 +164,85 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     onSettingsChange({ ...settings, [key]: value });
   };
 
+  const updatePreprocess = (key: keyof PreprocessSettings, value: number | boolean) => {
+    update('preprocess', { ...settings.preprocess, [key]: value });
+  };
+
+  const updateGcode = <K extends keyof GcodeSettings>(key: K, value: GcodeSettings[K]) => {
+    update('gcode', { ...settings.gcode, [key]: value });
+  };
+
+  // Pins an auto bridge exactly where it is, or lets a locked one go again
+  const toggleBridgeLock = (bridge: BridgeInfo, index: number) => {
+    if (bridge.kind === 'locked') {
+      // Locked bridges are reported in the order of settings.lockedBridges
+      const lockedIndex = bridgeReport!.bridges.slice(0, index).filter(b => b.kind === 'locked').length;
+      update('lockedBridges', settings.lockedBridges.filter((_, i) => i !== lockedIndex));
+    } else {
+      const { x1, y1, x2, y2, width } = bridge;
+      update('lockedBridges', [...settings.lockedBridges, { x1, y1, x2, y2, width }]);
+    }
+  };
+
+  const removeBridge = (bridge: BridgeInfo) => {
+    update('removedBridges', [...settings.removedBridges, { x: (bridge.x1 + bridge.x2) / 2, y: (bridge.y1 + bridge.y2) / 2 }]);
+  };
+
+  const updateManualBridge = (id: string, changes: Partial<ManualBridge>) => {
+    update('manualBridges', settings.manualBridges.map(b => b.id === id ? { ...b, ...changes } : b));
+  };
+
+  const deleteManualBridge = (id: string) => {
+    update('manualBridges', settings.manualBridges.filter(b => b.id !== id));
+    if (selectedBridgeId === id) onSelectBridge(null);
+  };
+
+  // Empty number fields fall back to automatic (angle) or the global setting (width)
+  const parseOptional = (value: string) => value.trim() === '' || isNaN(Number(value)) ? null : Number(value);
+
+  const updateCurveFit = <K extends keyof CurveFitSettings>(key: K, value: CurveFitSettings[K]) => {
+    update('curveFit', { ...settings.curveFit, [key]: value });
+  };
+
+  const updateKerf = <K extends keyof KerfSettings>(key: K, value: KerfSettings[K]) => {
+    update('kerf', { ...settings.kerf, [key]: value });
+  };
+
+  const updateHpgl = <K extends keyof HpglSettings>(key: K, value: HpglSettings[K]) => {
+    update('hpgl', { ...settings.hpgl, [key]: value });
+  };
+
+  const updateLayers = <K extends keyof LayerSettings>(key: K, value: LayerSettings[K]) => {
+    update('layers', { ...settings.layers, [key]: value });
+  };
+
+  const updateLayerStyle = (layer: OutputLayer, changes: Partial<LayerStyle>) => {
+    updateLayers('styles', { ...settings.layers.styles, [layer]: { ...settings.layers.styles[layer], ...changes } });
+  };
+
+  // Other levels or another method number the layers differently, so their visibility starts over
+  const updatePosterize = <K extends keyof PosterizeSettings>(key: K, value: PosterizeSettings[K]) => {
+    const reset = key === 'levels' || key === 'method' ? { hiddenLayers: [] } : {};
+    update('posterize', { ...settings.posterize, ...reset, [key]: value });
+  };
+
+  const toggleLayerVisibility = (index: number) => {
+    const hidden = settings.posterize.hiddenLayers;
+    updatePosterize('hiddenLayers', hidden.includes(index) ? hidden.filter(i => i !== index) : [...hidden, index]);
+  };
+
+  const updateColorKey = <K extends keyof ColorKeySettings>(key: K, value: ColorKeySettings[K]) => {
+    update('colorKey', { ...settings.colorKey, [key]: value });
+  };
+
+  const updateSvg = <K extends keyof SvgSettings>(key: K, value: SvgSettings[K]) => {
+    update('svg', { ...settings.svg, [key]: value });
+  };
+
+  const updateDxf = <K extends keyof DxfSettings>(key: K, value: DxfSettings[K]) => {
+    update('dxf', { ...settings.dxf, [key]: value });
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       onImageUpload(e.target.files[0]);
@@ -144,6 +326,43 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           </div>
         )}
 
+        <SectionHeader 
+            title="Voorbewerking" 
+            icon={SlidersHorizontal} 
+            isOpen={openSections.preprocess} 
+            onClick={() => toggleSection('preprocess')} 
+        />
+        {openSections.preprocess && (
+          <div className="p-4 md:p-5 space-y-4 bg-neutral-800/50 border-b border-neutral-700/30">
+             <div className="flex items-center justify-between">
+                <label className="text-xs md:text-sm font-medium text-neutral-300">Inverteren (wit op zwart)</label>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input type="checkbox" className="sr-only peer" checked={settings.preprocess.invert} onChange={(e) => updatePreprocess('invert', e.target.checked)} />
+                  <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+             </div>
+             {PREPROCESS_SLIDERS.map(({ key, label, min, max, step, unit }) => (
+               <div key={key}>
+                 <div className="flex justify-between mb-1.5">
+                   <label className="text-[10px] md:text-xs font-medium text-neutral-300">{label}</label>
+                   <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.preprocess[key]}{unit ? ` ${unit}` : ''}</span>
+                 </div>
+                 <input 
+                   type="range" min={min} max={max} step={step} value={settings.preprocess[key]} 
+                   onChange={(e) => updatePreprocess(key, Number(e.target.value))}
+                   className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                 />
+               </div>
+             ))}
+             <button
+               onClick={() => update('preprocess', DEFAULT_PREPROCESS)}
+               className="flex items-center justify-center gap-2 w-full py-2 px-3 rounded-md text-[10px] md:text-xs font-semibold transition-all border bg-neutral-900 border-neutral-700 text-neutral-400 hover:bg-neutral-750 hover:text-white"
+             >
+               <RotateCcw size={12} /> Herstellen
+             </button>
+          </div>
+        )}
+
         <SectionHeader 
             title="Overtrekken" 
             icon={ImageIcon} 
@@ -153,6 +372,41 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         {openSections.image && (
           <div className="p-4 md:p-5 space-y-4 md:space-y-5 bg-neutral-800/50 border-b border-neutral-700/30">
              
+             {/* Page Size Selector */}
+             <div>
+              <label className="block mb-2 text-[10px] md:text-xs font-medium text-neutral-300">Formaat</label>
+              <select
+                value={settings.pageSize}
+                onChange={(e) => update('pageSize', e.target.value as PageSizeId)}
+                className="bg-neutral-900 border border-neutral-700 text-neutral-100 text-[10px] md:text-xs rounded-md focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500 block w-full p-2"
+              >
+                {(Object.keys(PAGE_SIZE_PRESETS) as (keyof typeof PAGE_SIZE_PRESETS)[]).map(id => (
+                  <option key={id} value={id}>
+                    {PAGE_SIZE_PRESETS[id].label} ({PAGE_SIZE_PRESETS[id].width} x {PAGE_SIZE_PRESETS[id].height} mm)
+                  </option>
+                ))}
+                <option value="custom">Aangepast formaat</option>
+              </select>
+              {settings.pageSize === 'custom' && (
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  {(['width', 'height'] as const).map(dim => (
+                    <div key={dim}>
+                      <label className="block mb-1 text-[9px] md:text-[10px] text-neutral-400">{dim === 'width' ? 'Breedte' : 'Hoogte'} (mm)</label>
+                      <input
+                        type="number"
+                        min={CUSTOM_PAGE_MIN_MM}
+                        max={CUSTOM_PAGE_MAX_MM}
+                        step="1"
+                        value={settings.customPageSize[dim]}
+                        onChange={(e) => update('customPageSize', { ...settings.customPageSize, [dim]: Number(e.target.value) })}
+                        className="bg-neutral-900 border border-neutral-700 text-neutral-100 text-[10px] md:text-xs font-mono rounded-md focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500 block w-full p-2"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
              {/* Orientation Selector */}
              <div>
               <label className="block mb-2 text-[10px] md:text-xs font-medium text-neutral-300">Document Oriëntatie</label>
@@ -174,7 +428,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
 
              <div>
               <div className="flex justify-between mb-1.5">
-                <label className="text-[10px] md:text-xs font-medium text-neutral-300">Grootte (A3)</label>
+                <label className="text-[10px] md:text-xs font-medium text-neutral-300">Grootte ({getPageLabel(settings)})</label>
                 <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.imageSize}%</span>
               </div>
               <input 
@@ -184,16 +438,76 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               />
             </div>
             <div>
-              <div className="flex justify-between mb-1.5">
-                <label className="text-[10px] md:text-xs font-medium text-neutral-300">Drempelwaarde</label>
-                <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.threshold}</span>
-              </div>
-              <input 
-                type="range" min="0" max="255" value={settings.threshold} 
-                onChange={(e) => update('threshold', Number(e.target.value))}
-                className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
-              />
+              <label className="block mb-2 text-[10px] md:text-xs font-medium text-neutral-300">Drempelmethode</label>
+              <select
+                value={settings.thresholdMode}
+                onChange={(e) => update('thresholdMode', e.target.value as ThresholdMode)}
+                className="bg-neutral-900 border border-neutral-700 text-neutral-100 text-[10px] md:text-xs rounded-md focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500 block w-full p-2"
+              >
+                {(Object.keys(THRESHOLD_MODE_LABELS) as ThresholdMode[]).map(mode => (
+                  <option key={mode} value={mode}>{THRESHOLD_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
             </div>
+            {settings.thresholdMode === 'manual' && (
+              <div>
+                <div className="flex justify-between mb-1.5">
+                  <label className="text-[10px] md:text-xs font-medium text-neutral-300">Drempelwaarde</label>
+                  <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.threshold}</span>
+                </div>
+                <input 
+                  type="range" min="0" max="255" value={settings.threshold} 
+                  onChange={(e) => update('threshold', Number(e.target.value))}
+                  className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </div>
+            )}
+            {settings.thresholdMode === 'otsu' && (
+              <div className="flex justify-between items-center gap-2">
+                <span className="text-[10px] md:text-[11px] text-neutral-400 italic">Drempel wordt automatisch uit het histogram bepaald.</span>
+                <span className="text-[10px] md:text-xs font-mono text-blue-400">{appliedThreshold ?? '–'}</span>
+              </div>
+            )}
+            {settings.thresholdMode !== 'manual' && settings.thresholdMode !== 'otsu' && (
+              <>
+                <div>
+                  <div className="flex justify-between mb-1.5">
+                    <label className="text-[10px] md:text-xs font-medium text-neutral-300">Venstergrootte</label>
+                    <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.adaptiveWindow} mm</span>
+                  </div>
+                  <input 
+                    type="range" min="2" max="60" step="1" value={settings.adaptiveWindow} 
+                    onChange={(e) => update('adaptiveWindow', Number(e.target.value))}
+                    className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                </div>
+                {settings.thresholdMode === 'sauvola' ? (
+                  <div>
+                    <div className="flex justify-between mb-1.5">
+                      <label className="text-[10px] md:text-xs font-medium text-neutral-300">Gevoeligheid (k)</label>
+                      <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.sauvolaK.toFixed(2)}</span>
+                    </div>
+                    <input 
+                      type="range" min="0.05" max="0.6" step="0.01" value={settings.sauvolaK} 
+                      onChange={(e) => update('sauvolaK', Number(e.target.value))}
+                      className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <div className="flex justify-between mb-1.5">
+                      <label className="text-[10px] md:text-xs font-medium text-neutral-300">Correctie (C)</label>
+                      <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.adaptiveOffset}</span>
+                    </div>
+                    <input 
+                      type="range" min="-20" max="40" step="1" value={settings.adaptiveOffset} 
+                      onChange={(e) => update('adaptiveOffset', Number(e.target.value))}
+                      className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                  </div>
+                )}
+              </>
+            )}
             <div>
               <div className="flex justify-between mb-1.5">
                 <label className="text-[10px] md:text-xs font-medium text-neutral-300">Detailschaal</label>
@@ -219,6 +533,156 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           </div>
         )}
 
+        <SectionHeader 
+            title="Posterisatie" 
+            icon={Palette} 
+            isOpen={openSections.posterize} 
+            onClick={() => toggleSection('posterize')} 
+        />
+        {openSections.posterize && (
+          <div className="p-4 md:p-5 space-y-4 bg-neutral-800/50 border-b border-neutral-700/30">
+             <div className="flex items-center justify-between">
+                <label className="text-xs md:text-sm font-medium text-neutral-300" title="Meerdere toonlagen in plaats van één drempel, elk met een eigen masker en eigen export">Meerdere lagen</label>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input type="checkbox" className="sr-only peer" checked={settings.posterize.enabled} onChange={(e) => updatePosterize('enabled', e.target.checked)} />
+                  <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+             </div>
+
+             {settings.posterize.enabled && (
+               <div className="space-y-4 pt-2 animate-in fade-in slide-in-from-top-1 duration-200">
+                 <div className="grid grid-cols-2 gap-2">
+                   {POSTERIZE_METHODS.map(({ method, label, title }) => (
+                     <button
+                       key={method}
+                       onClick={() => updatePosterize('method', method)}
+                       className={`py-2 px-3 rounded-md text-[10px] md:text-xs font-semibold transition-all border ${settings.posterize.method === method ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-900/20' : 'bg-neutral-900 border-neutral-700 text-neutral-400 hover:bg-neutral-750'}`}
+                       title={title}
+                     >
+                       {label}
+                     </button>
+                   ))}
+                 </div>
+                 <div>
+                   <div className="flex justify-between mb-1.5">
+                     <label className="text-[10px] md:text-xs font-medium text-neutral-300">Aantal lagen</label>
+                     <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.posterize.levels}</span>
+                   </div>
+                   <input 
+                     type="range" min="2" max="6" step="1"
+                     value={settings.posterize.levels} 
+                     onChange={(e) => updatePosterize('levels', Number(e.target.value))}
+                     className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                   />
+                 </div>
+                 <div className="flex items-center justify-between">
+                   <label className="text-[10px] md:text-xs font-medium text-neutral-300" title="Kruisjes in drie hoeken van elke laag, om de lagen precies op elkaar te leggen">Pasmerken</label>
+                   <label className="relative inline-flex items-center cursor-pointer">
+                     <input type="checkbox" className="sr-only peer" checked={settings.posterize.registrationMarks} onChange={(e) => updatePosterize('registrationMarks', e.target.checked)} />
+                     <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                   </label>
+                 </div>
+
+                 {posterTints.length > 0 && (
+                   <div className="space-y-1">
+                     {posterTints.map((tint, i) => {
+                       const visible = !settings.posterize.hiddenLayers.includes(i);
+                       return (
+                         <div key={i} className="flex items-center gap-2 px-2 py-1.5 rounded-md bg-neutral-900/60 border border-neutral-700/50">
+                           <span className="w-4 h-4 rounded border border-neutral-600 shrink-0" style={{ backgroundColor: tint }} />
+                           <span className={`flex-1 text-[10px] md:text-xs ${visible ? 'text-neutral-300' : 'text-neutral-500 line-through'}`}>Laag {i + 1}</span>
+                           <button
+                             onClick={() => toggleLayerVisibility(i)}
+                             className="p-1 rounded text-neutral-400 hover:text-white hover:bg-neutral-700 transition-colors"
+                             title={visible ? 'Verbergen en niet exporteren' : 'Tonen en exporteren'}
+                           >
+                             {visible ? <Eye size={14} /> : <EyeOff size={14} />}
+                           </button>
+                         </div>
+                       );
+                     })}
+                   </div>
+                 )}
+               </div>
+             )}
+          </div>
+        )}
+
+        <SectionHeader 
+            title="Kleurselectie" 
+            icon={Pipette} 
+            isOpen={openSections.colorKey} 
+            onClick={() => toggleSection('colorKey')} 
+        />
+        {openSections.colorKey && (
+          <div className="p-4 md:p-5 space-y-4 bg-neutral-800/50 border-b border-neutral-700/30">
+             <div className="flex items-center justify-between">
+                <label className="text-xs md:text-sm font-medium text-neutral-300" title="Het masker volgt de gekozen kleuren in plaats van de helderheid">Op kleur maskeren</label>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input type="checkbox" className="sr-only peer" checked={settings.colorKey.enabled} onChange={(e) => updateColorKey('enabled', e.target.checked)} />
+                  <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+             </div>
+             {settings.colorKey.enabled && settings.posterize.enabled && (
+               <p className="text-[10px] md:text-xs text-amber-400">Posterisatie staat aan en gaat voor de kleurselectie.</p>
+             )}
+
+             <div className="flex flex-wrap items-center gap-1.5">
+               {settings.colorKey.colors.map(color => (
+                 <span key={color} className="flex items-center gap-1 pl-1 pr-0.5 py-0.5 rounded-md bg-neutral-900/60 border border-neutral-700/50">
+                   <span className="w-4 h-4 rounded border border-neutral-600" style={{ backgroundColor: color }} title={color} />
+                   <button
+                     onClick={() => updateColorKey('colors', settings.colorKey.colors.filter(c => c !== color))}
+                     className="p-0.5 rounded text-neutral-500 hover:text-white hover:bg-neutral-700 transition-colors"
+                     title="Kleur verwijderen"
+                   >
+                     <X size={12} />
+                   </button>
+                 </span>
+               ))}
+               <button
+                 onClick={() => update('activeTool', 'eyedropper')}
+                 className={`flex items-center gap-1.5 py-1 px-2 rounded-md text-[10px] md:text-xs font-semibold transition-all border ${settings.activeTool === 'eyedropper' ? 'bg-blue-600 border-blue-500 text-white' : 'bg-neutral-900 border-neutral-700 text-neutral-400 hover:bg-neutral-750'}`}
+                 title="Klik daarna op de afbeelding om een kleur toe te voegen"
+               >
+                 <Pipette size={12} /> Pipet
+               </button>
+             </div>
+
+             <div className="grid grid-cols-2 gap-2">
+               {COLOR_SPACES.map(({ space, label, title }) => (
+                 <button
+                   key={space}
+                   onClick={() => updateColorKey('space', space)}
+                   className={`py-2 px-3 rounded-md text-[10px] md:text-xs font-semibold transition-all border ${settings.colorKey.space === space ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-900/20' : 'bg-neutral-900 border-neutral-700 text-neutral-400 hover:bg-neutral-750'}`}
+                   title={title}
+                 >
+                   {label}
+                 </button>
+               ))}
+             </div>
+             <div>
+               <div className="flex justify-between mb-1.5">
+                 <label className="text-[10px] md:text-xs font-medium text-neutral-300">Tolerantie</label>
+                 <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.colorKey.tolerance}</span>
+               </div>
+               <input 
+                 type="range" min="1" max="100" step="1"
+                 value={settings.colorKey.tolerance} 
+                 onChange={(e) => updateColorKey('tolerance', Number(e.target.value))}
+                 className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+               />
+             </div>
+             <div className="flex items-center justify-between">
+               <label className="text-[10px] md:text-xs font-medium text-neutral-300" title="De gekozen kleuren zijn de achtergrond; al het andere wordt het ontwerp. Voor vlakke, egaal gekleurde afbeeldingen">Achtergrondkleur verwijderen</label>
+               <label className="relative inline-flex items-center cursor-pointer">
+                 <input type="checkbox" className="sr-only peer" checked={settings.colorKey.removeBackground} onChange={(e) => updateColorKey('removeBackground', e.target.checked)} />
+                 <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+               </label>
+             </div>
+          </div>
+        )}
+
         <SectionHeader 
             title="Stencil" 
             icon={Layers} 
@@ -261,6 +725,116 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                             className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
                         />
                     </div>
+                    <div className="flex items-center justify-between">
+                        <label className="text-[10px] md:text-xs font-medium text-neutral-300" title="Bruggen na het vectoriseren als exacte rechthoeken uit de contouren snijden, met rechte zijden">Vectorbruggen</label>
+                        <label className="relative inline-flex items-center cursor-pointer">
+                          <input type="checkbox" className="sr-only peer" checked={settings.vectorBridges} onChange={(e) => update('vectorBridges', e.target.checked)} />
+                          <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                        </label>
+                    </div>
+
+                    {bridgeReport && (
+                      <div className="space-y-2">
+                        <div className="flex justify-between text-[10px] md:text-xs">
+                          <span className="font-medium text-neutral-300">Eilanden</span>
+                          <span className="font-mono text-neutral-400">
+                            {bridgeReport.islands.length} · {bridgeReport.bridges.filter(b => b.kind === 'manual').length} handmatige brug(gen)
+                          </span>
+                        </div>
+                        {bridgeReport.bridges.some(b => b.kind !== 'manual') && (
+                          <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+                            {bridgeReport.bridges.map((bridge, i) => bridge.kind === 'manual' ? null : (
+                              <div key={i} className="flex items-center justify-between gap-2 px-2.5 py-1.5 rounded-md border bg-neutral-900 border-neutral-700 text-[10px] md:text-xs text-neutral-300">
+                                <span className="flex items-center gap-2 min-w-0">
+                                  <span className={`w-2 h-2 shrink-0 rounded-full ${bridge.kind === 'locked' ? 'bg-blue-400' : 'bg-orange-400'}`} />
+                                  <span className="truncate">
+                                    {bridge.island >= 0
+                                      ? `Eiland ${bridge.island + 1} (${bridgeReport.islands[bridge.island].area.toFixed(1)} mm²)`
+                                      : 'Los'}
+                                  </span>
+                                </span>
+                                <span className="flex items-center gap-1 shrink-0">
+                                  <button
+                                    onClick={() => toggleBridgeLock(bridge, i)}
+                                    className="p-1 rounded text-neutral-400 hover:text-white hover:bg-neutral-700"
+                                    title={bridge.kind === 'locked' ? 'Brug losmaken' : 'Brug vastzetten'}
+                                  >
+                                    {bridge.kind === 'locked' ? <Unlock size={12} /> : <Lock size={12} />}
+                                  </button>
+                                  {bridge.kind === 'auto' && (
+                                    <button
+                                      onClick={() => removeBridge(bridge)}
+                                      className="p-1 rounded text-neutral-400 hover:text-red-400 hover:bg-neutral-700"
+                                      title="Brug verwijderen"
+                                    >
+                                      <Trash2 size={12} />
+                                    </button>
+                                  )}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {settings.removedBridges.length > 0 && (
+                          <button
+                            onClick={() => update('removedBridges', [])}
+                            className="w-full flex items-center justify-center gap-1.5 py-1.5 rounded-md text-[10px] md:text-xs text-neutral-400 hover:text-white bg-neutral-900 border border-neutral-700 hover:bg-neutral-750 transition-all"
+                          >
+                            <RotateCcw size={12} /> Verwijderde bruggen herstellen ({settings.removedBridges.length})
+                          </button>
+                        )}
+                      </div>
+                    )}
+
+                    {settings.manualBridges.length > 0 && (
+                      <div className="space-y-2">
+                        <div className="flex justify-between text-[10px] md:text-xs">
+                          <span className="font-medium text-neutral-300">Handmatige bruggen</span>
+                          <span className="text-neutral-500">Hoek leeg = automatisch</span>
+                        </div>
+                        <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+                          {settings.manualBridges.map((bridge, i) => (
+                            <div
+                              key={bridge.id}
+                              onClick={() => onSelectBridge(bridge.id)}
+                              className={`flex items-center gap-2 px-2.5 py-1.5 rounded-md border cursor-pointer text-[10px] md:text-xs text-neutral-300 ${selectedBridgeId === bridge.id ? 'bg-green-900/30 border-green-600' : 'bg-neutral-900 border-neutral-700 hover:border-neutral-500'}`}
+                            >
+                              <span className="w-2 h-2 shrink-0 rounded-full bg-green-400" />
+                              <span className="flex-1 truncate">Brug {i + 1}</span>
+                              <input
+                                type="number" min="0" max="179" step="1"
+                                value={bridge.angle ?? ''}
+                                placeholder="auto"
+                                onClick={(e) => e.stopPropagation()}
+                                onChange={(e) => updateManualBridge(bridge.id, { angle: parseOptional(e.target.value) })}
+                                className="w-12 bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 font-mono text-right"
+                                title="Hoek in graden"
+                              />
+                              <span className="text-neutral-500">°</span>
+                              <input
+                                type="number" min="0.25" max="20" step="0.25"
+                                value={bridge.width ?? ''}
+                                placeholder={String(settings.bridgeWidth)}
+                                onClick={(e) => e.stopPropagation()}
+                                onChange={(e) => updateManualBridge(bridge.id, { width: parseOptional(e.target.value) })}
+                                className="w-12 bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 font-mono text-right"
+                                title="Brugbreedte (leeg = algemene breedte)"
+                              />
+                              <button
+                                onClick={(e) => { e.stopPropagation(); deleteManualBridge(bridge.id); }}
+                                className="p-1 rounded text-neutral-400 hover:text-red-400 hover:bg-neutral-700"
+                                title="Brug verwijderen"
+                              >
+                                <Trash2 size={12} />
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                        {selectedBridgeId && (
+                          <p className="text-[10px] text-neutral-500">Sleep in het voorbeeld het midden om te verplaatsen, het uiteinde om te draaien en de zijgreep voor de breedte.</p>
+                        )}
+                      </div>
+                    )}
                 </div>
              )}
           </div>
@@ -274,6 +848,26 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         />
         {openSections.vector && (
            <div className="p-4 md:p-5 space-y-4 bg-neutral-800/50 border-b border-neutral-700/30">
+               <div>
+                <label className="block mb-2 text-[10px] md:text-xs font-medium text-neutral-300">Trace-modus</label>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => update('traceMode', 'outline')}
+                    className={`py-2 px-3 rounded-md text-[10px] md:text-xs font-semibold transition-all border ${settings.traceMode === 'outline' ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-900/20' : 'bg-neutral-900 border-neutral-700 text-neutral-400 hover:bg-neutral-750'}`}
+                    title="Omtrekken van de vormen (snijden)"
+                  >
+                    Omtrek
+                  </button>
+                  <button
+                    onClick={() => update('traceMode', 'centerline')}
+                    className={`py-2 px-3 rounded-md text-[10px] md:text-xs font-semibold transition-all border ${settings.traceMode === 'centerline' ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-900/20' : 'bg-neutral-900 border-neutral-700 text-neutral-400 hover:bg-neutral-750'}`}
+                    title="Enkele lijn door het midden (pennenplotter, graveren)"
+                  >
+                    Hartlijn
+                  </button>
+                </div>
+               </div>
+
                <div className="flex items-center justify-between">
                 <label className="text-xs md:text-sm font-medium text-neutral-300">Voorbeeld: Lijnen</label>
                 <label className="relative inline-flex items-center cursor-pointer">
@@ -282,20 +876,457 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 </label>
              </div>
 
-             <div className="animate-in fade-in slide-in-from-top-1 duration-200">
-                <div className="flex justify-between mb-1.5">
-                    <label className="text-[10px] md:text-xs font-medium text-neutral-300">Vectorpad Gladstrijken</label>
-                    <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.vectorSmoothing}</span>
+             <div className="flex items-center justify-between">
+                <label className="text-xs md:text-sm font-medium text-neutral-300" title="Binnenste contouren eerst, daarna de kortste route">Snijvolgorde Optimaliseren</label>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input type="checkbox" className="sr-only peer" checked={settings.optimizeCutOrder} onChange={(e) => update('optimizeCutOrder', e.target.checked)} />
+                  <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+             </div>
+
+             {settings.traceMode === 'outline' && (
+               <div className="flex items-center justify-between animate-in fade-in slide-in-from-top-1 duration-200">
+                  <label className="text-xs md:text-sm font-medium text-neutral-300" title="Contouren met marching squares op het grijswaardenbeeld, tussen de pixels in in plaats van langs de pixelranden">Subpixel-contouren</label>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input type="checkbox" className="sr-only peer" checked={settings.subpixelContours} onChange={(e) => update('subpixelContours', e.target.checked)} />
+                    <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                  </label>
+               </div>
+             )}
+
+             {settings.traceMode === 'outline' && (
+               <div className="space-y-2">
+                 <div className="flex items-center justify-between">
+                   <label className="text-xs md:text-sm font-medium text-neutral-300">Kerfcompensatie (mm)</label>
+                   <input
+                     type="number" min="0" max="2" step="0.01"
+                     value={settings.kerf.width}
+                     onChange={(e) => updateKerf('width', Math.max(0, Number(e.target.value)))}
+                     className="bg-neutral-900 border border-neutral-700 text-neutral-100 text-[10px] md:text-xs font-mono rounded-md focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500 block w-20 p-1.5 text-right"
+                   />
+                 </div>
+                 {settings.kerf.width > 0 && (
+                   <div className="grid grid-cols-2 gap-2 animate-in fade-in slide-in-from-top-1 duration-200">
+                     {([
+                       ['keep', 'opening', 'Openingen'],
+                       ['keep', 'part', 'Onderdelen'],
+                       ['join', 'round', 'Ronde hoeken'],
+                       ['join', 'miter', 'Scherpe hoeken']
+                     ] as const).map(([key, value, label]) => (
+                       <button
+                         key={value}
+                         onClick={() => updateKerf(key, value)}
+                         className={`py-1.5 px-2 rounded-md text-[10px] md:text-xs font-semibold transition-all border ${settings.kerf[key] === value ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-900/20' : 'bg-neutral-900 border-neutral-700 text-neutral-400 hover:bg-neutral-750'}`}
+                       >
+                         {label}
+                       </button>
+                     ))}
+                   </div>
+                 )}
+               </div>
+             )}
+
+             <div>
+                <label className="block mb-2 text-[10px] md:text-xs font-medium text-neutral-300">Curve-aanpassing</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {CURVE_FIT_MODES.map(({ mode, label, title }) => (
+                    <button
+                      key={mode}
+                      onClick={() => updateCurveFit('mode', mode)}
+                      className={`py-2 px-3 rounded-md text-[10px] md:text-xs font-semibold transition-all border ${settings.curveFit.mode === mode ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-900/20' : 'bg-neutral-900 border-neutral-700 text-neutral-400 hover:bg-neutral-750'}`}
+                      title={title}
+                    >
+                      {label}
+                    </button>
+                  ))}
                 </div>
-                <input 
-                    type="range" min="0" max="5" step="1"
-                    value={settings.vectorSmoothing} 
-                    onChange={(e) => update('vectorSmoothing', Number(e.target.value))}
-                    className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                />
+             </div>
+
+             {settings.curveFit.mode === 'smooth' ? (
+               <div className="animate-in fade-in slide-in-from-top-1 duration-200">
+                  <div className="flex justify-between mb-1.5">
+                      <label className="text-[10px] md:text-xs font-medium text-neutral-300">Vectorpad Gladstrijken</label>
+                      <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.vectorSmoothing}</span>
+                  </div>
+                  <input 
+                      type="range" min="0" max="5" step="1"
+                      value={settings.vectorSmoothing} 
+                      onChange={(e) => update('vectorSmoothing', Number(e.target.value))}
+                      className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+               </div>
+             ) : (
+               <div className="space-y-4 animate-in fade-in slide-in-from-top-1 duration-200">
+                  <div>
+                      <div className="flex justify-between mb-1.5">
+                          <label className="text-[10px] md:text-xs font-medium text-neutral-300" title="Scherpere bochten blijven een hoek">Hoekdrempel</label>
+                          <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.curveFit.cornerAngle}°</span>
+                      </div>
+                      <input 
+                          type="range" min="20" max="135" step="5"
+                          value={settings.curveFit.cornerAngle} 
+                          onChange={(e) => updateCurveFit('cornerAngle', Number(e.target.value))}
+                          className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                      />
+                  </div>
+                  <div>
+                      <div className="flex justify-between mb-1.5">
+                          <label className="text-[10px] md:text-xs font-medium text-neutral-300" title="Maximale afwijking van de curve ten opzichte van de contour">Tolerantie</label>
+                          <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.curveFit.tolerance} mm</span>
+                      </div>
+                      <input 
+                          type="range" min="0.02" max="0.5" step="0.02"
+                          value={settings.curveFit.tolerance} 
+                          onChange={(e) => updateCurveFit('tolerance', Number(e.target.value))}
+                          className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                      />
+                  </div>
+               </div>
+             )}
+
+             <div className="flex items-center justify-between">
+                <label className="text-[10px] md:text-xs font-medium text-neutral-300" title="Contouren binnen de tolerantie van een cirkel of ellips als echte cirkel of ellips exporteren, en bij Hoeken behouden ook cirkelbogen tussen hoeken">Cirkels en bogen herkennen</label>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input type="checkbox" className="sr-only peer" checked={settings.curveFit.primitives} onChange={(e) => updateCurveFit('primitives', e.target.checked)} />
+                  <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
              </div>
            </div>
         )}
+
+        <SectionHeader 
+            title="Lagen" 
+            icon={Layers} 
+            isOpen={openSections.layers} 
+            onClick={() => toggleSection('layers')} 
+        />
+        {openSections.layers && (
+           <div className="p-4 md:p-5 space-y-4 bg-neutral-800/50 border-b border-neutral-700/30">
+             <div className="space-y-2">
+               {(Object.keys(OUTPUT_LAYER_LABELS) as OutputLayer[]).map(layer => (
+                 <div key={layer} className="flex items-center gap-2">
+                   <input
+                     type="color"
+                     value={settings.layers.styles[layer].color}
+                     onChange={(e) => updateLayerStyle(layer, { color: e.target.value })}
+                     className="w-7 h-7 shrink-0 bg-neutral-900 border border-neutral-700 rounded cursor-pointer"
+                     title="Lijnkleur"
+                   />
+                   <span className="flex-1 text-[10px] md:text-xs font-medium text-neutral-300">{OUTPUT_LAYER_LABELS[layer]}</span>
+                   <input
+                     type="number" min="0.01" max="5" step="0.01"
+                     value={settings.layers.styles[layer].strokeWidth}
+                     onChange={(e) => updateLayerStyle(layer, { strokeWidth: Math.max(0.01, Number(e.target.value)) })}
+                     className="bg-neutral-900 border border-neutral-700 text-neutral-100 text-[10px] md:text-xs font-mono rounded-md focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500 block w-20 p-1.5"
+                     title="Lijndikte in mm"
+                   />
+                 </div>
+               ))}
+             </div>
+
+             <div className="space-y-2">
+               {LAYER_ASSIGNMENTS.map(({ key, label, title }) => (
+                 <div key={key} className="flex items-center justify-between gap-2">
+                   <label className="text-[10px] md:text-xs font-medium text-neutral-300" title={title}>{label}</label>
+                   <select
+                     value={settings.layers[key] ?? ''}
+                     onChange={(e) => updateLayers(key, (e.target.value || null) as OutputLayer | null)}
+                     className="bg-neutral-900 border border-neutral-700 text-neutral-100 text-[10px] md:text-xs rounded-md focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500 block w-32 p-1.5"
+                   >
+                     {key !== 'outlines' && <option value="">Uit</option>}
+                     {(Object.keys(OUTPUT_LAYER_LABELS) as OutputLayer[]).map(layer => (
+                       <option key={layer} value={layer}>{OUTPUT_LAYER_LABELS[layer]}</option>
+                     ))}
+                   </select>
+                 </div>
+               ))}
+             </div>
+
+             {settings.layers.offsets && (
+               <div className="animate-in fade-in slide-in-from-top-1 duration-200">
+                  <div className="flex justify-between mb-1.5">
+                      <label className="text-[10px] md:text-xs font-medium text-neutral-300" title="Positief: buiten de donkere vlakken, negatief: erbinnen">Offsetafstand</label>
+                      <span className="text-[10px] md:text-xs font-mono text-blue-400">{settings.layers.offsetDistance} mm</span>
+                  </div>
+                  <input 
+                      type="range" min="-5" max="5" step="0.1"
+                      value={settings.layers.offsetDistance} 
+                      onChange={(e) => updateLayers('offsetDistance', Number(e.target.value))}
+                      className="w-full h-1.5 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+               </div>
+             )}
+           </div>
+        )}
+
+        <SectionHeader 
+            title={`Maakbaarheid${violations.length ? ` (${violations.length})` : ''}`} 
+            icon={ShieldAlert} 
+            isOpen={openSections.drc} 
+            onClick={() => toggleSection('drc')} 
+        />
+        {openSections.drc && (
+           <div className="p-4 md:p-5 space-y-4 bg-neutral-800/50 border-b border-neutral-700/30">
+             <div className="flex items-center justify-between">
+               <label className="text-xs md:text-sm font-medium text-neutral-300">Minimale breedte (mm)</label>
+               <input
+                 type="number" min="0" max="10" step="0.05"
+                 value={settings.minFeatureWidth}
+                 onChange={(e) => update('minFeatureWidth', Math.max(0, Number(e.target.value)))}
+                 className="bg-neutral-900 border border-neutral-700 text-neutral-100 text-[10px] md:text-xs font-mono rounded-md focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500 block w-20 p-1.5 text-right"
+               />
+             </div>
+
+             {settings.minFeatureWidth <= 0 && !(settings.traceMode === 'outline' && settings.kerf.width > 0) ? (
+               <p className="text-[10px] md:text-xs text-neutral-500">Controle uitgeschakeld.</p>
+             ) : violations.length === 0 ? (
+               <p className="text-[10px] md:text-xs text-emerald-400">Geen te smalle onderdelen gevonden.</p>
+             ) : (
+               <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+                 {violations.slice(0, MAX_LISTED_VIOLATIONS).map((v, i) => (
+                   <button
+                     key={i}
+                     onClick={() => onFocusViolation(i)}
+                     className={`w-full flex items-center justify-between gap-2 px-2.5 py-1.5 rounded-md border text-left text-[10px] md:text-xs transition-all ${focusedViolation === i ? 'bg-amber-500/20 border-amber-500/60 text-amber-200' : 'bg-neutral-900 border-neutral-700 text-neutral-300 hover:bg-neutral-750'}`}
+                   >
+                     <span className="flex items-center gap-2">
+                       <span className={`w-2 h-2 rounded-full ${VIOLATION_KINDS[v.kind].dot}`} />
+                       {VIOLATION_KINDS[v.kind].label}
+                     </span>
+                     <span className="font-mono text-neutral-400">{v.featureWidth.toFixed(2)} mm</span>
+                   </button>
+                 ))}
+                 {violations.length > MAX_LISTED_VIOLATIONS && (
+                   <p className="text-[10px] text-neutral-500 pt-1">en nog {violations.length - MAX_LISTED_VIOLATIONS} meer…</p>
+                 )}
+               </div>
+             )}
+           </div>
+        )}
+
+        <SectionHeader 
+            title="Machine (G-code)" 
+            icon={Cpu} 
+            isOpen={openSections.machine} 
+            onClick={() => toggleSection('machine')} 
+        />
+        {openSections.machine && (
+           <div className="p-4 md:p-5 space-y-4 bg-neutral-800/50 border-b border-neutral-700/30">
+             <div className="grid grid-cols-2 gap-2">
+               {(['laser', 'pen'] as const).map(mode => (
+                 <button
+                   key={mode}
+                   onClick={() => updateGcode('toolMode', mode)}
+                   className={`py-2 px-3 rounded-md text-[10px] md:text-xs font-semibold transition-all border ${settings.gcode.toolMode === mode ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-900/20' : 'bg-neutral-900 border-neutral-700 text-neutral-400 hover:bg-neutral-750'}`}
+                 >
+                   {mode === 'laser' ? 'Laser' : 'Pennenplotter'}
+                 </button>
+               ))}
+             </div>
+
+             <div className="grid grid-cols-2 gap-2">
+               <div>
+                 <label className="block mb-1 text-[9px] md:text-[10px] text-neutral-400">Snelheid (mm/min)</label>
+                 <input
+                   type="number" min="1" step="10"
+                   value={settings.gcode.feedRate}
+                   onChange={(e) => updateGcode('feedRate', Number(e.target.value))}
+                   className="bg-neutral-900 border border-neutral-700 text-neutral-100 text-[10px] md:text-xs font-mono rounded-md focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500 block w-full p-2"
+                 />
+               </div>
+               <div>
+                 <label className="block mb-1 text-[9px] md:text-[10px] text-neutral-400">Doorgangen</label>
+                 <input
+                   type="number" min="1" max="20" step="1"
+                   value={settings.gcode.passes}
+                   onChange={(e) => updateGcode('passes', Number(e.target.value))}
+                   className="bg-neutral-900 border border-neutral-700 text-neutral-100 text-[10px] md:text-xs font-mono rounded-md focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500 block w-full p-2"
+                 />
+               </div>
+             </div>
+
+             {settings.gcode.toolMode === 'laser' ? (
+               <div>
+                 <label className="block mb-1 text-[9px] md:text-[10px] text-neutral-400">Vermogen (S-waarde)</label>
+                 <input
+                   type="number" min="0" step="10"
+                   value={settings.gcode.power}
+                   onChange={(e) => updateGcode('power', Number(e.target.value))}
+                   className="bg-neutral-900 border border-neutral-700 text-neutral-100 text-[10px] md:text-xs font-mono rounded-md focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500 block w-full p-2"
+                 />
+               </div>
+             ) : (
+               <div className="grid grid-cols-2 gap-2">
+                 {(['penUp', 'penDown'] as const).map(key => (
+                   <div key={key}>
+                     <label className="block mb-1 text-[9px] md:text-[10px] text-neutral-400">{key === 'penUp' ? 'Pen omhoog' : 'Pen omlaag'}</label>
+                     <input
+                       type="text"
+                       value={settings.gcode[key]}
+                       onChange={(e) => updateGcode(key, e.target.value)}
+                       className="bg-neutral-900 border border-neutral-700 text-neutral-100 text-[10px] md:text-xs font-mono rounded-md focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500 block w-full p-2"
+                     />
+                   </div>
+                 ))}
+               </div>
+             )}
+
+             <div>
+               <label className="block mb-1 text-[9px] md:text-[10px] text-neutral-400">Nulpunt</label>
+               <select
+                 value={settings.gcode.origin}
+                 onChange={(e) => updateGcode('origin', e.target.value as OriginCorner)}
+                 className="bg-neutral-900 border border-neutral-700 text-neutral-100 text-[10px] md:text-xs rounded-md focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500 block w-full p-2"
+               >
+                 {(Object.keys(ORIGIN_LABELS) as OriginCorner[]).map(origin => (
+                   <option key={origin} value={origin}>{ORIGIN_LABELS[origin]}</option>
+                 ))}
+               </select>
+             </div>
+
+             <div className="flex items-center justify-between">
+                <label className="text-xs md:text-sm font-medium text-neutral-300">Y-as omkeren</label>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input type="checkbox" className="sr-only peer" checked={settings.gcode.flipY} onChange={(e) => updateGcode('flipY', e.target.checked)} />
+                  <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+             </div>
+           </div>
+        )}
+
+        <SectionHeader 
+            title="Snijplotter (HPGL)" 
+            icon={Scissors} 
+            isOpen={openSections.cutter} 
+            onClick={() => toggleSection('cutter')} 
+        />
+        {openSections.cutter && (
+           <div className="p-4 md:p-5 space-y-4 bg-neutral-800/50 border-b border-neutral-700/30">
+             <div className="grid grid-cols-3 gap-2">
+               {([
+                 ['unitsPerMm', 'Eenheden/mm', 1, 1],
+                 ['overcut', 'Overcut (mm)', 0, 0.1],
+                 ['bladeOffset', 'Mesoffset (mm)', 0, 0.05]
+               ] as const).map(([key, label, min, step]) => (
+                 <div key={key}>
+                   <label className="block mb-1 text-[9px] md:text-[10px] text-neutral-400">{label}</label>
+                   <input
+                     type="number" min={min} step={step}
+                     value={settings.hpgl[key]}
+                     onChange={(e) => updateHpgl(key, Number(e.target.value))}
+                     className="bg-neutral-900 border border-neutral-700 text-neutral-100 text-[10px] md:text-xs font-mono rounded-md focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500 block w-full p-2"
+                   />
+                 </div>
+               ))}
+             </div>
+
+             <div className="flex items-center justify-between">
+                <label className="text-xs md:text-sm font-medium text-neutral-300">Start op scherpste hoek</label>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input type="checkbox" className="sr-only peer" checked={settings.hpgl.startAtCorner} onChange={(e) => updateHpgl('startAtCorner', e.target.checked)} />
+                  <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+             </div>
+           </div>
+        )}
+
+        <SectionHeader 
+            title="SVG-export" 
+            icon={PaintBucket} 
+            isOpen={openSections.svg} 
+            onClick={() => toggleSection('svg')} 
+        />
+        {openSections.svg && (
+           <div className="p-4 md:p-5 space-y-4 bg-neutral-800/50 border-b border-neutral-700/30">
+             <div className="grid grid-cols-2 gap-2">
+               {SVG_MODES.map(({ mode, label, title }) => (
+                 <button
+                   key={mode}
+                   onClick={() => updateSvg('mode', mode)}
+                   className={`py-2 px-3 rounded-md text-[10px] md:text-xs font-semibold transition-all border ${settings.svg.mode === mode ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-900/20' : 'bg-neutral-900 border-neutral-700 text-neutral-400 hover:bg-neutral-750'}`}
+                   title={title}
+                 >
+                   {label}
+                 </button>
+               ))}
+             </div>
+
+             {settings.svg.mode === 'filled' && (
+               <div className="space-y-2 animate-in fade-in slide-in-from-top-1 duration-200">
+                 <div className="flex items-center justify-between">
+                   <label className="text-[10px] md:text-xs font-medium text-neutral-300">Vulkleur</label>
+                   <input
+                     type="color"
+                     value={settings.svg.fillColor}
+                     onChange={(e) => updateSvg('fillColor', e.target.value)}
+                     className="w-7 h-7 bg-neutral-900 border border-neutral-700 rounded cursor-pointer"
+                   />
+                 </div>
+                 <div className="flex items-center justify-between gap-2">
+                   <label className="flex-1 text-[10px] md:text-xs font-medium text-neutral-300" title="Zonder achtergrond blijft de rest van de pagina transparant">Achtergrond</label>
+                   {settings.svg.background !== null && (
+                     <input
+                       type="color"
+                       value={settings.svg.background}
+                       onChange={(e) => updateSvg('background', e.target.value)}
+                       className="w-7 h-7 bg-neutral-900 border border-neutral-700 rounded cursor-pointer"
+                     />
+                   )}
+                   <label className="relative inline-flex items-center cursor-pointer">
+                     <input type="checkbox" className="sr-only peer" checked={settings.svg.background !== null} onChange={(e) => updateSvg('background', e.target.checked ? '#ffffff' : null)} />
+                     <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                   </label>
+                 </div>
+               </div>
+             )}
+           </div>
+        )}
+
+        <SectionHeader 
+            title="DXF-export" 
+            icon={FileCode} 
+            isOpen={openSections.dxf} 
+            onClick={() => toggleSection('dxf')} 
+        />
+        {openSections.dxf && (
+           <div className="p-4 md:p-5 space-y-4 bg-neutral-800/50 border-b border-neutral-700/30">
+             <div>
+                <label className="block mb-2 text-[10px] md:text-xs font-medium text-neutral-300" title="Lagen: CUT (rood) voor contouren, ENGRAVE (blauw) voor middellijnen, BRIDGE (groen) voor bruggen">Versie</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {DXF_VERSIONS.map(({ version, label, title }) => (
+                    <button
+                      key={version}
+                      onClick={() => updateDxf('version', version)}
+                      className={`py-2 px-3 rounded-md text-[10px] md:text-xs font-semibold transition-all border ${settings.dxf.version === version ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-900/20' : 'bg-neutral-900 border-neutral-700 text-neutral-400 hover:bg-neutral-750'}`}
+                      title={title}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+             </div>
+
+             {settings.dxf.version === 'r2000' && (
+               <div className="flex items-center justify-between animate-in fade-in slide-in-from-top-1 duration-200">
+                  <label className="text-[10px] md:text-xs font-medium text-neutral-300" title="Bézier-curves als SPLINE-entiteiten in plaats van korte lijnstukken">Splines</label>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input type="checkbox" className="sr-only peer" checked={settings.dxf.splines} onChange={(e) => updateDxf('splines', e.target.checked)} />
+                    <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                  </label>
+               </div>
+             )}
+
+             {!settings.vectorBridges && (
+               <div className="flex items-center justify-between animate-in fade-in slide-in-from-top-1 duration-200">
+                  <label className="text-[10px] md:text-xs font-medium text-neutral-300" title="Bruggen als rechthoeken op de BRIDGE-laag, alleen ter referentie: zet deze laag uit in de snijsoftware, anders wordt het eiland los gesneden">Bruggenlaag</label>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input type="checkbox" className="sr-only peer" checked={settings.dxf.bridgeLayer} onChange={(e) => updateDxf('bridgeLayer', e.target.checked)} />
+                    <div className="w-8 h-4 md:w-9 md:h-5 bg-neutral-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 md:after:h-4 md:after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                  </label>
+               </div>
+             )}
+           </div>
+        )}
       </div>
 
       <div className="p-3 md:p-6 border-t border-neutral-700 bg-neutral-800/95 backdrop-blur shrink-0 shadow-[0_-5px_15px_rgba(0,0,0,0.3)]">
@@ -314,6 +1345,20 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             >
             <Download size={14} className="md:w-[16px] md:h-[16px]" /> DXF
             </button>
+            <button
+            onClick={onDownloadGcode}
+            disabled={!canDownload}
+            className={`flex items-center justify-center gap-2 text-white bg-amber-600 hover:bg-amber-500 font-semibold rounded-lg text-xs md:text-sm px-3 py-2 md:px-4 md:py-3 active:scale-95 transition-all ${!canDownload ? 'opacity-40 grayscale cursor-not-allowed' : 'shadow-lg shadow-amber-900/20'}`}
+            >
+            <Download size={14} className="md:w-[16px] md:h-[16px]" /> G-code
+            </button>
+            <button
+            onClick={onDownloadHpgl}
+            disabled={!canDownload}
+            className={`flex items-center justify-center gap-2 text-white bg-violet-600 hover:bg-violet-500 font-semibold rounded-lg text-xs md:text-sm px-3 py-2 md:px-4 md:py-3 active:scale-95 transition-all ${!canDownload ? 'opacity-40 grayscale cursor-not-allowed' : 'shadow-lg shadow-violet-900/20'}`}
+            >
+            <Download size={14} className="md:w-[16px] md:h-[16px]" /> HPGL
+            </button>
         </div>
       </div>
     </div>
@@ -1,17 +1,22 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { AppSettings, MaskGrid } from '../types';
-import { getA3Dimensions } from '../constants';
-import { postProcessMask, smoothMask, extractAllContours, buildBezierPath } from '../utils/processing';
-import { ZoomIn, ZoomOut, Maximize, ScanLine, Image as ImageIcon, MousePointer2, Eraser, Undo2, Redo2 } from 'lucide-react';
+import { AppSettings, BridgeInfo, BridgeReport, DrcViolation, ManualBridge, OutputLayer, PackedMask } from '../types';
+import { getPageDimensions, PT_PER_MM } from '../constants';
+import { Pipeline, JobProgress, MaskLayer, VectorPath, PipelineStage, TravelEstimate, isJobCancelled } from '../utils/pipeline';
+import { ZoomIn, ZoomOut, Maximize, ScanLine, Image as ImageIcon, MousePointer2, Eraser, Undo2, Redo2, Link2, PaintBucket, Pipette } from 'lucide-react';
 
 interface PreviewCanvasProps {
   originalImage: HTMLImageElement | null;
   settings: AppSettings;
+  pipeline: Pipeline;
   onSettingsChange: (settings: AppSettings) => void;
-  onMaskReady: (mask: MaskGrid) => void;
+  onMaskReady: (mask: PackedMask, threshold: number | null, bridges: BridgeReport, layers: MaskLayer[] | null) => void;
+  violations?: DrcViolation[];
+  focusedViolation?: { index: number } | null;
   onToggleViewMode?: () => void;
-  onManualBridgeToggle?: (x: number, y: number) => void;
+  onManualBridgeClick?: (x: number, y: number) => void;
+  selectedBridgeId?: string | null;
+  onSelectBridge?: (id: string | null) => void;
   onErasedPathsUpdate?: (paths: any[]) => void;
   onUndo?: () => void;
   onRedo?: () => void;
@@ -19,13 +24,32 @@ interface PreviewCanvasProps {
   canRedo?: boolean;
 }
 
+const BRIDGE_COLORS: Record<BridgeInfo['kind'], string> = {
+  auto: 'rgba(249, 115, 22, 0.8)',
+  manual: 'rgba(34, 197, 94, 0.8)',
+  locked: 'rgba(59, 130, 246, 0.8)'
+};
+
+const VIOLATION_COLORS: Record<DrcViolation['kind'], { stroke: string; fill: string }> = {
+  opening: { stroke: '#d946ef', fill: 'rgba(217, 70, 239, 0.15)' },
+  material: { stroke: '#f59e0b', fill: 'rgba(245, 158, 11, 0.15)' },
+  kerf: { stroke: '#38bdf8', fill: 'rgba(56, 189, 248, 0.15)' }
+};
+
+type BridgeHandle = 'move' | 'rotate' | 'width';
+
 const PreviewCanvas: React.FC<PreviewCanvasProps> = ({ 
   originalImage, 
   settings, 
+  pipeline,
   onSettingsChange,
   onMaskReady, 
+  violations = [],
+  focusedViolation = null,
   onToggleViewMode,
-  onManualBridgeToggle,
+  onManualBridgeClick,
+  selectedBridgeId = null,
+  onSelectBridge,
   onErasedPathsUpdate,
   onUndo,
   onRedo,
@@ -35,26 +59,50 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const maskPreviewCanvasRef = useRef<HTMLCanvasElement | null>(null);
-  const currentMaskRef = useRef<MaskGrid | null>(null);
+  const currentMaskRef = useRef<PackedMask | null>(null);
+  const currentLayersRef = useRef<MaskLayer[] | null>(null);
+  const docImageRef = useRef<CanvasRenderingContext2D | null>(null); // The image as placed on the page, for the eyedropper
+  // The image resampled to the mask resolution, kept while only thresholding and editing settings change
+  const sourceRef = useRef<{ image: HTMLImageElement; key: string; id: number; rgba: Uint8ClampedArray } | null>(null);
+  const nextSourceId = useRef(1);
   const vectorTimeoutRef = useRef<number | null>(null);
   
   const [processing, setProcessing] = useState(false); // For vectorization
   const [isMaskProcessing, setIsMaskProcessing] = useState(false); // For bitmap operations
+  const [maskProgress, setMaskProgress] = useState<JobProgress | null>(null);
+  const [vectorProgress, setVectorProgress] = useState(0);
 
-  const [vectorPaths, setVectorPaths] = useState<Path2D[]>([]);
+  const [vectorPaths, setVectorPaths] = useState<{ path: Path2D; closed: boolean }[]>([]);
+  const [offsetPaths, setOffsetPaths] = useState<Path2D[]>([]);
+  const [layerVectorPaths, setLayerVectorPaths] = useState<{ path: Path2D; closed: boolean }[][]>([]);
+  const [travel, setTravel] = useState<TravelEstimate | null>(null);
   const [previewMask, setPreviewMask] = useState<ImageData | null>(null);
+  const [previewSource, setPreviewSource] = useState<ImageData | null>(null);
+  const [layerPreviews, setLayerPreviews] = useState<{ image: ImageData; tint: string }[]>([]);
+  const layerCanvasesRef = useRef<HTMLCanvasElement[]>([]);
+  const [showSource, setShowSource] = useState(false);
+  const sourcePreviewCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [islandOverlay, setIslandOverlay] = useState<ImageData | null>(null);
+  const islandOverlayCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [bridgeReport, setBridgeReport] = useState<BridgeReport | null>(null);
+  const [showBridges, setShowBridges] = useState(true);
+  const [showFilled, setShowFilled] = useState(false);
 
   const [transform, setTransform] = useState({ k: 0.8, x: 0, y: 0 });
   const [canvasSize, setCanvasSize] = useState({ w: 0, h: 0 });
   const [mousePos, setMousePos] = useState({ x: -100, y: -100 });
 
-  const { width: docW, height: docH } = getA3Dimensions(settings.orientation);
+  const { width: docW, height: docH } = getPageDimensions(settings);
 
   const isDragging = useRef(false);
   const lastMousePos = useRef<{ x: number, y: number } | null>(null);
   const startMousePos = useRef<{ x: number, y: number } | null>(null);
   const activeErasePath = useRef<{ points: {x: number, y: number}[], size: number } | null>(null);
 
+  // Handle drag on a manual bridge; the edited copy is drawn live and committed on release
+  const bridgeDrag = useRef<{ mode: BridgeHandle; bridge: ManualBridge } | null>(null);
+  const [draftBridge, setDraftBridge] = useState<ManualBridge | null>(null);
+
   const touchState = useRef({
     dist: 0,
     kStart: 1,
@@ -63,6 +111,19 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
 
   const LINE_WIDTH = 0.2835;
 
+  const STAGE_LABELS: Record<PipelineStage, string> = {
+    preprocess: 'Voorbewerking',
+    threshold: 'Drempel',
+    postprocess: 'Bruggen',
+    smooth: 'Gladstrijken',
+    preview: 'Voorbeeld',
+    contours: 'Contouren',
+    order: 'Snijvolgorde',
+    drc: 'Maakbaarheid',
+    paths: 'Paden',
+    export: 'Exporteren'
+  };
+
   const getDocCoords = useCallback((screenX: number, screenY: number) => {
     if (!containerRef.current) return { x: 0, y: 0 };
     const rect = containerRef.current.getBoundingClientRect();
@@ -97,160 +158,210 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
     return () => observer.disconnect();
   }, []);
 
-  // FASE 1: SNELLE MASKER GENERATIE
+  // FASE 1: MASKER GENERATIE (WORKER)
   useEffect(() => {
     let active = true;
 
-    // Start loading cursor immediately
-    setIsMaskProcessing(true);
+    if (!originalImage) {
+      setPreviewMask(null);
+      setPreviewSource(null);
+      setBridgeReport(null);
+      setIslandOverlay(null);
+      setLayerPreviews([]);
+      currentMaskRef.current = null;
+      currentLayersRef.current = null;
+      docImageRef.current = null;
+      sourceRef.current = null;
+      setIsMaskProcessing(false);
+      return;
+    }
 
-    // Use setTimeout to allow the UI to render the cursor change before blocking on heavy computation
-    const timer = setTimeout(() => {
-        if (!active) return;
-        
-        const processMask = () => {
-          if (!originalImage) {
-            setPreviewMask(null);
-            currentMaskRef.current = null;
-            setIsMaskProcessing(false);
-            return;
-          }
-          
-          try {
-            const internalScale = settings.scale / 100;
-            const internalW = Math.max(20, Math.round(docW * internalScale));
-            const internalH = Math.max(20, Math.round(docH * internalScale));
-            
-            const tempCanvas = document.createElement('canvas');
-            tempCanvas.width = internalW;
-            tempCanvas.height = internalH;
-            const tctx = tempCanvas.getContext('2d', { willReadFrequently: true });
-            if (!tctx) return;
-
-            const fitScale = Math.min((docW * (settings.imageSize / 100)) / originalImage.width, (docH * (settings.imageSize / 100)) / originalImage.height);
-            const finalW = originalImage.width * fitScale;
-            const finalH = originalImage.height * fitScale;
-            
-            const docCanvas = document.createElement('canvas');
-            docCanvas.width = docW;
-            docCanvas.height = docH;
-            const docCtx = docCanvas.getContext('2d');
-            if (!docCtx) return;
-            
-            docCtx.fillStyle = '#ffffff';
-            docCtx.fillRect(0, 0, docW, docH);
-            docCtx.drawImage(originalImage, (docW - finalW)/2, (docH - finalH)/2, finalW, finalH);
-            
-            tctx.drawImage(docCanvas, 0, 0, internalW, internalH);
-            const imgData = tctx.getImageData(0, 0, internalW, internalH);
-            const data = imgData.data;
-            const thresh = settings.threshold;
-            
-            const bwMask: MaskGrid = new Array(internalH);
-            for (let y = 0; y < internalH; y++) {
-              bwMask[y] = new Array(internalW);
-              for (let x = 0; x < internalW; x++) {
-                const idx = (y * internalW + x) * 4;
-                const lum = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
-                bwMask[y][x] = lum < thresh;
-              }
-            }
-
-            const docToMask = internalW / docW;
-            postProcessMask(bwMask, internalW, internalH, { 
-              stencilMode: settings.stencilMode, 
-              bridgeWidth: settings.bridgeWidth * docToMask,
-              bridgeCount: settings.bridgeCount,
-              manualBridges: settings.manualBridges.map(b => ({ x: b.x * docToMask, y: b.y * docToMask })),
-              erasedPaths: settings.erasedPaths.map(p => ({
-                points: p.points.map(pt => ({ x: pt.x * docToMask, y: pt.y * docToMask })),
-                size: p.size * docToMask
-              }))
-            });
-            
-            if (settings.smooth > 0) smoothMask(bwMask, internalW, internalH, settings.smooth);
-
-            if (!active) return;
-            
-            currentMaskRef.current = bwMask;
-            onMaskReady(bwMask);
-
-            const previewData = new ImageData(internalW, internalH);
-            for (let y = 0; y < internalH; y++) {
-              for (let x = 0; x < internalW; x++) {
-                const idx = (y * internalW + x) * 4;
-                const val = bwMask[y][x] ? 0 : 255;
-                previewData.data[idx] = val;
-                previewData.data[idx+1] = val;
-                previewData.data[idx+2] = val;
-                previewData.data[idx+3] = 255;
-              }
-            }
-            setPreviewMask(previewData);
-          } catch (err) {
-            console.error("Mask process error:", err);
-          } finally {
-            if (active) setIsMaskProcessing(false);
-          }
-        };
+    const internalScale = settings.scale / 100;
+    const internalW = Math.max(20, Math.round(docW * internalScale));
+    const internalH = Math.max(20, Math.round(docH * internalScale));
+
+    const sourceKey = JSON.stringify([internalW, internalH, settings.imageSize, docW, docH]);
+    let source = sourceRef.current;
+    if (!source || source.image !== originalImage || source.key !== sourceKey) {
+      // Resampling the image is cheap on the GPU-backed canvas; everything after it runs in the worker
+      const tempCanvas = document.createElement('canvas');
+      tempCanvas.width = internalW;
+      tempCanvas.height = internalH;
+      const tctx = tempCanvas.getContext('2d', { willReadFrequently: true });
+      if (!tctx) return;
+
+      const fitScale = Math.min((docW * (settings.imageSize / 100)) / originalImage.width, (docH * (settings.imageSize / 100)) / originalImage.height);
+      const finalW = originalImage.width * fitScale;
+      const finalH = originalImage.height * fitScale;
+
+      const docCanvas = document.createElement('canvas');
+      docCanvas.width = Math.round(docW);
+      docCanvas.height = Math.round(docH);
+      const docCtx = docCanvas.getContext('2d', { willReadFrequently: true });
+      if (!docCtx) return;
+
+      docCtx.fillStyle = '#ffffff';
+      docCtx.fillRect(0, 0, docW, docH);
+      docCtx.drawImage(originalImage, (docW - finalW)/2, (docH - finalH)/2, finalW, finalH);
+      docImageRef.current = docCtx;
+
+      tctx.drawImage(docCanvas, 0, 0, internalW, internalH);
+      source = { image: originalImage, key: sourceKey, id: nextSourceId.current++, rgba: tctx.getImageData(0, 0, internalW, internalH).data };
+      sourceRef.current = source;
+    }
+    // The worker keeps what it derives from the same source id, so an edit skips the threshold
+    const rgba = source.rgba.slice();
 
-        processMask();
-    }, 50); // Increased to 50ms to ensure cursor paint
+    setIsMaskProcessing(true);
+    pipeline.run('mask', {
+      rgba,
+      sourceId: source.id,
+      width: internalW,
+      height: internalH,
+      docWidth: docW,
+      docHeight: docH,
+      settings
+    }, {
+      transfer: [rgba.buffer],
+      onProgress: (p) => { if (active) setMaskProgress(p); }
+    }).then(({ mask, preview, source, threshold, bridges, islands, layers }) => {
+      if (!active) return;
+      currentMaskRef.current = mask;
+      currentLayersRef.current = layers;
+      onMaskReady(mask, threshold, bridges, layers);
+      setLayerPreviews(layers ? layers.map(layer => ({ image: new ImageData(layer.preview, mask.width, mask.height), tint: layer.tint })) : []);
+      setBridgeReport(bridges);
+      setIslandOverlay(islands ? new ImageData(islands, mask.width, mask.height) : null);
+      setPreviewMask(new ImageData(preview, mask.width, mask.height));
+      setPreviewSource(new ImageData(source, mask.width, mask.height));
+      setIsMaskProcessing(false);
+      setMaskProgress(null);
+    }).catch(err => {
+      if (isJobCancelled(err)) return;
+      console.error("Mask process error:", err);
+      if (active) {
+        setIsMaskProcessing(false);
+        setMaskProgress(null);
+      }
+    });
 
-    return () => { active = false; clearTimeout(timer); };
-  }, [originalImage, settings.threshold, settings.scale, settings.imageSize, settings.smooth, settings.stencilMode, settings.bridgeWidth, settings.bridgeCount, settings.manualBridges, settings.erasedPaths, docW, docH]);
+    return () => { active = false; };
+  }, [originalImage, settings.threshold, settings.thresholdMode, settings.adaptiveWindow, settings.adaptiveOffset, settings.sauvolaK, settings.preprocess, settings.scale, settings.imageSize, settings.smooth, settings.stencilMode, settings.bridgeWidth, settings.bridgeCount, settings.vectorBridges, settings.manualBridges, settings.lockedBridges, settings.removedBridges, settings.erasedPaths, settings.posterize.enabled, settings.posterize.levels, settings.posterize.method, settings.colorKey, settings.subpixelContours, docW, docH, pipeline]);
 
-  // FASE 2: ZWARE VECTORISATIE (DEBOUNCED)
+  // FASE 2: ZWARE VECTORISATIE (DEBOUNCED, WORKER)
   useEffect(() => {
+    let active = true;
     if (vectorTimeoutRef.current) window.clearTimeout(vectorTimeoutRef.current);
 
     if (!settings.bezierMode) {
+      pipeline.cancel('vector');
       setVectorPaths([]);
+      setOffsetPaths([]);
+      setLayerVectorPaths([]);
+      setTravel(null);
+      setProcessing(false);
       return;
     }
 
     setProcessing(true);
-    vectorTimeoutRef.current = window.setTimeout(async () => {
+    vectorTimeoutRef.current = window.setTimeout(() => {
       const mask = currentMaskRef.current;
       if (!mask) {
         setProcessing(false);
         return;
       }
 
-      try {
-        const internalH = mask.length;
-        const internalW = mask[0].length;
-        const contours = extractAllContours(mask, internalW, internalH, docW, docH);
-        const paths: Path2D[] = [];
-        const smoothing = Math.max(settings.vectorSmoothing, 0.5);
-        
-        contours.forEach(contour => {
-          const pathString = buildBezierPath(contour, 3000, smoothing);
-          if (pathString) paths.push(new Path2D(pathString));
-        });
-        setVectorPaths(paths);
-      } finally {
+      // The masks stay on this thread, so the worker gets its own copies
+      const data = mask.data.slice();
+      const layers = (currentLayersRef.current ?? []).map(layer => ({
+        mask: { ...layer.mask, data: layer.mask.data.slice() },
+        bridges: settings.vectorBridges ? layer.bridges.bridges : []
+      }));
+      pipeline.run('vector', {
+        mask: { ...mask, data },
+        docWidth: docW,
+        docHeight: docH,
+        vectorSmoothing: settings.vectorSmoothing,
+        curveFit: settings.curveFit,
+        traceMode: settings.traceMode,
+        optimizeCutOrder: settings.optimizeCutOrder,
+        kerf: settings.kerf,
+        bridges: settings.vectorBridges && bridgeReport ? bridgeReport.bridges : [],
+        offsetDistance: settings.layers.offsets ? settings.layers.offsetDistance : 0,
+        layers
+      }, {
+        transfer: [data.buffer, ...layers.map(layer => layer.mask.data.buffer)],
+        onProgress: (p) => { if (active) setVectorProgress(p.progress); }
+      }).then(({ paths, offsets, travel, layers }) => {
+        if (!active) return;
+        const toPath2D = ({ d, closed }: VectorPath) => ({ path: new Path2D(d), closed });
+        setVectorPaths(paths.map(toPath2D));
+        setLayerVectorPaths(layers.map(layer => layer.map(toPath2D)));
+        setOffsetPaths(offsets.map(d => new Path2D(d)));
+        setTravel(travel);
         setProcessing(false);
-      }
+        setVectorProgress(0);
+      }).catch(err => {
+        if (isJobCancelled(err)) return;
+        console.error("Vectorization error:", err);
+        if (active) setProcessing(false);
+      });
     }, 300);
 
     return () => {
+      active = false;
       if (vectorTimeoutRef.current) window.clearTimeout(vectorTimeoutRef.current);
     };
-  }, [previewMask, settings.bezierMode, settings.vectorSmoothing, docW, docH]);
+  }, [previewMask, bridgeReport, settings.bezierMode, settings.vectorSmoothing, settings.curveFit, settings.traceMode, settings.optimizeCutOrder, settings.kerf, settings.vectorBridges, settings.layers.offsets, settings.layers.offsetDistance, docW, docH, pipeline]);
 
-  useEffect(() => {
-    if (!previewMask) {
-      maskPreviewCanvasRef.current = null;
-      return;
-    }
+  const imageDataToCanvas = (data: ImageData | null) => {
+    if (!data) return null;
     const temp = document.createElement('canvas');
-    temp.width = previewMask.width;
-    temp.height = previewMask.height;
-    temp.getContext('2d')?.putImageData(previewMask, 0, 0);
-    maskPreviewCanvasRef.current = temp;
+    temp.width = data.width;
+    temp.height = data.height;
+    temp.getContext('2d')?.putImageData(data, 0, 0);
+    return temp;
+  };
+
+  useEffect(() => {
+    maskPreviewCanvasRef.current = imageDataToCanvas(previewMask);
   }, [previewMask]);
 
+  useEffect(() => {
+    sourcePreviewCanvasRef.current = imageDataToCanvas(previewSource);
+  }, [previewSource]);
+
+  useEffect(() => {
+    islandOverlayCanvasRef.current = imageDataToCanvas(islandOverlay);
+  }, [islandOverlay]);
+
+  useEffect(() => {
+    layerCanvasesRef.current = layerPreviews.map(({ image }) => imageDataToCanvas(image)!);
+  }, [layerPreviews]);
+
+  // Handles of a manual bridge: the centre moves it, the far end rotates it, the side sets its width.
+  // Without a fixed angle the direction comes from where the last mask run placed the bridge.
+  const getBridgeHandles = (bridge: ManualBridge) => {
+    const reported = bridgeReport?.bridges.find(b => b.id === bridge.id);
+    let angle = ((bridge.angle ?? 0) * Math.PI) / 180;
+    let halfLength = 0;
+    if (reported) {
+      halfLength = Math.hypot(reported.x2 - reported.x1, reported.y2 - reported.y1) / 2;
+      if (bridge.angle === null && halfLength > 0) angle = Math.atan2(reported.y1 - reported.y2, reported.x1 - reported.x2);
+    }
+    const dir = { x: Math.cos(angle), y: Math.sin(angle) };
+    const perp = { x: -dir.y, y: dir.x };
+    const width = bridge.width ?? settings.bridgeWidth;
+    const reach = halfLength + 12 / transform.k;
+    const side = Math.max(width, 4 / transform.k);
+    return {
+      dir, perp, halfLength, width,
+      move: { x: bridge.x, y: bridge.y },
+      rotate: { x: bridge.x + dir.x * reach, y: bridge.y + dir.y * reach },
+      resize: { x: bridge.x + perp.x * side, y: bridge.y + perp.y * side }
+    };
+  };
+
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas || canvasSize.w === 0) return;
@@ -280,18 +391,131 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
        return;
     }
 
-    if (!settings.bezierMode && maskPreviewCanvasRef.current) {
+    // Posterized layers stacked in their tints, the lightest at the bottom
+    const { hiddenLayers } = settings.posterize;
+    const stackOrder = layerPreviews.map((_, i) => i).reverse().filter(i => !hiddenLayers.includes(i));
+    const bitmap = showSource ? sourcePreviewCanvasRef.current : maskPreviewCanvasRef.current;
+    if (layerPreviews.length && !showSource && !settings.bezierMode) {
+        ctx.imageSmoothingEnabled = false;
+        stackOrder.forEach(i => {
+          const layerCanvas = layerCanvasesRef.current[i];
+          if (layerCanvas) ctx.drawImage(layerCanvas, 0, 0, docW, docH);
+        });
+    }
+    else if (layerPreviews.length && settings.bezierMode) {
+        ctx.lineWidth = LINE_WIDTH * 2;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        stackOrder.forEach(i => {
+          const tint = layerPreviews[i].tint;
+          ctx.fillStyle = tint;
+          ctx.strokeStyle = tint;
+          layerVectorPaths[i]?.forEach(({ path, closed }) => closed ? ctx.fill(path, 'evenodd') : ctx.stroke(path));
+        });
+    }
+    else if (!settings.bezierMode && bitmap) {
         ctx.imageSmoothingEnabled = false; 
-        ctx.drawImage(maskPreviewCanvasRef.current, 0, 0, docW, docH);
+        ctx.drawImage(bitmap, 0, 0, docW, docH);
     } 
+    else if (settings.bezierMode && showFilled) {
+        // As the filled SVG export: the dark regions filled, centre lines stroked in the fill colour
+        const { fillColor, background } = settings.svg;
+        if (background) {
+          ctx.fillStyle = background;
+          ctx.fillRect(0, 0, docW, docH);
+        }
+        ctx.fillStyle = fillColor;
+        ctx.strokeStyle = fillColor;
+        ctx.lineWidth = Math.max(LINE_WIDTH, settings.layers.styles[settings.layers.outlines].strokeWidth * PT_PER_MM);
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        vectorPaths.forEach(({ path, closed }) => closed ? ctx.fill(path, 'evenodd') : ctx.stroke(path));
+    }
     else if (settings.bezierMode) {
+        // Layers as in the export: fills, then offset lines, then outlines on top
+        const { styles, outlines, fills, offsets } = settings.layers;
         ctx.lineCap = 'round';
         ctx.lineJoin = 'round';
-        ctx.lineWidth = LINE_WIDTH; 
-        ctx.strokeStyle = '#ff0000';
-        vectorPaths.forEach(path => ctx.stroke(path));
+        if (fills) {
+          ctx.fillStyle = styles[fills].color;
+          vectorPaths.forEach(({ path, closed }) => { if (closed) ctx.fill(path, 'evenodd'); });
+        }
+        // Hairline layers still get a visible line
+        const strokeWith = (layer: OutputLayer) => {
+          ctx.lineWidth = Math.max(LINE_WIDTH, styles[layer].strokeWidth * PT_PER_MM);
+          ctx.strokeStyle = styles[layer].color;
+        };
+        if (offsets) {
+          strokeWith(offsets);
+          offsetPaths.forEach(path => ctx.stroke(path));
+        }
+        strokeWith(outlines);
+        vectorPaths.forEach(({ path }) => ctx.stroke(path));
+    }
+
+    // Islands and their bridges: automatic orange, manual green, locked blue
+    if (showBridges && bridgeReport) {
+      if (islandOverlayCanvasRef.current) {
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(islandOverlayCanvasRef.current, 0, 0, docW, docH);
+      }
+      ctx.lineCap = 'round';
+      bridgeReport.bridges.forEach(b => {
+        ctx.beginPath();
+        ctx.moveTo(b.x1, b.y1);
+        ctx.lineTo(b.x2, b.y2);
+        ctx.lineWidth = Math.max(b.width * 2, 2 / transform.k);
+        ctx.strokeStyle = BRIDGE_COLORS[b.kind];
+        ctx.stroke();
+      });
+    }
+
+    // The selected manual bridge with its drag handles; while dragging, the edited bridge is drawn as a ghost
+    const editedBridge = draftBridge ?? settings.manualBridges.find(b => b.id === selectedBridgeId);
+    if (editedBridge && settings.activeTool === 'pointer') {
+      const h = getBridgeHandles(editedBridge);
+      const len = Math.max(h.halfLength, 6 / transform.k);
+      ctx.lineCap = 'round';
+      if (draftBridge) {
+        ctx.beginPath();
+        ctx.moveTo(draftBridge.x - h.dir.x * len, draftBridge.y - h.dir.y * len);
+        ctx.lineTo(draftBridge.x + h.dir.x * len, draftBridge.y + h.dir.y * len);
+        ctx.lineWidth = Math.max(h.width * 2, 2 / transform.k);
+        ctx.strokeStyle = 'rgba(34, 197, 94, 0.5)';
+        ctx.stroke();
+      }
+      ctx.beginPath();
+      ctx.moveTo(h.move.x, h.move.y);
+      ctx.lineTo(h.rotate.x, h.rotate.y);
+      ctx.moveTo(h.move.x, h.move.y);
+      ctx.lineTo(h.resize.x, h.resize.y);
+      ctx.lineWidth = 1 / transform.k;
+      ctx.strokeStyle = '#ffffff';
+      ctx.stroke();
+      [h.move, h.rotate, h.resize].forEach((p, i) => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, (i === 0 ? 5 : 4) / transform.k, 0, Math.PI * 2);
+        ctx.fillStyle = i === 0 ? '#22c55e' : '#ffffff';
+        ctx.fill();
+        ctx.lineWidth = 1.5 / transform.k;
+        ctx.strokeStyle = '#15803d';
+        ctx.stroke();
+      });
     }
 
+    // Manufacturability markers, drawn at a constant screen size
+    violations.forEach((v, i) => {
+      const focused = focusedViolation?.index === i;
+      const pad = 6 / transform.k;
+      ctx.beginPath();
+      ctx.rect(v.x - v.width / 2 - pad, v.y - v.height / 2 - pad, v.width + pad * 2, v.height + pad * 2);
+      ctx.lineWidth = (focused ? 3 : 1.5) / transform.k;
+      ctx.strokeStyle = VIOLATION_COLORS[v.kind].stroke;
+      ctx.fillStyle = VIOLATION_COLORS[v.kind].fill;
+      ctx.fill();
+      ctx.stroke();
+    });
+
     // Teken het ACTIEVE gum-pad voor live feedback tijdens het slepen
     if (activeErasePath.current && activeErasePath.current.points.length > 0) {
       ctx.beginPath();
@@ -308,7 +532,7 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
     }
 
     // Brush cursor
-    if (settings.activeTool === 'eraser' && mousePos.x >= 0 && !processing && !isMaskProcessing) {
+    if (settings.activeTool === 'eraser' && mousePos.x >= 0) {
       ctx.setTransform(1, 0, 0, 1, 0, 0);
       ctx.scale(dpr, dpr);
       ctx.beginPath();
@@ -318,13 +542,24 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
       ctx.lineWidth = 1.5;
       ctx.stroke();
     }
-  }, [originalImage, vectorPaths, transform, settings.bezierMode, settings.activeTool, settings.brushSize, mousePos, canvasSize, docW, docH, processing, isMaskProcessing]);
+  }, [originalImage, vectorPaths, offsetPaths, layerPreviews, layerVectorPaths, settings.posterize.hiddenLayers, settings.layers, settings.svg, showFilled, previewMask, previewSource, showSource, islandOverlay, bridgeReport, showBridges, draftBridge, selectedBridgeId, settings.manualBridges, settings.bridgeWidth, violations, focusedViolation, transform, settings.bezierMode, settings.activeTool, settings.brushSize, mousePos, canvasSize, docW, docH]);
 
   useEffect(() => {
     const animId = requestAnimationFrame(draw);
     return () => cancelAnimationFrame(animId);
   }, [draw]);
 
+  // Centres the view on a violation picked from the list, zooming in if it would be too small to see
+  useEffect(() => {
+    const v = focusedViolation ? violations[focusedViolation.index] : undefined;
+    if (!v || canvasSize.w === 0) return;
+    setTransform(prev => {
+      const fitK = Math.min(canvasSize.w, canvasSize.h) / (Math.max(v.width, v.height) * 4);
+      const k = Math.max(0.1, Math.min(Math.max(prev.k, Math.min(fitK, 8)), 20));
+      return { k, x: canvasSize.w / 2 - v.x * k, y: canvasSize.h / 2 - v.y * k };
+    });
+  }, [focusedViolation]);
+
   const handleWheel = (e: React.WheelEvent) => {
     const zoomIntensity = 0.1;
     const direction = e.deltaY > 0 ? -1 : 1;
@@ -355,10 +590,88 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
     setTransform({ k: newK, x: newX, y: newY });
   }, [transform]);
 
+  // Starts a handle drag on the selected bridge, or a move on the centre of any manual bridge
+  const startBridgeDrag = (clientX: number, clientY: number): boolean => {
+    if (settings.activeTool !== 'pointer') return false;
+    const coords = getDocCoords(clientX, clientY);
+    const reach = 8 / transform.k;
+    const near = (p: { x: number, y: number }) => Math.hypot(p.x - coords.x, p.y - coords.y) <= reach;
+
+    const selected = settings.manualBridges.find(b => b.id === selectedBridgeId);
+    if (selected) {
+      const handles = getBridgeHandles(selected);
+      const mode: BridgeHandle | null = near(handles.rotate) ? 'rotate' : near(handles.resize) ? 'width' : near(handles.move) ? 'move' : null;
+      if (mode) {
+        bridgeDrag.current = { mode, bridge: selected };
+        setDraftBridge(selected);
+        return true;
+      }
+    }
+    const hit = settings.manualBridges.find(b => near(b));
+    if (!hit) return false;
+    onSelectBridge?.(hit.id);
+    bridgeDrag.current = { mode: 'move', bridge: hit };
+    setDraftBridge(hit);
+    return true;
+  };
+
+  const updateBridgeDrag = (clientX: number, clientY: number) => {
+    const drag = bridgeDrag.current;
+    if (!drag) return;
+    const coords = getDocCoords(clientX, clientY);
+    const b = drag.bridge;
+    let next: ManualBridge;
+    if (drag.mode === 'move') {
+      next = { ...b, x: Math.max(0, Math.min(docW, coords.x)), y: Math.max(0, Math.min(docH, coords.y)) };
+    } else if (drag.mode === 'rotate') {
+      // A bridge runs both ways, so angles are kept within [0, 180)
+      const deg = (Math.atan2(coords.y - b.y, coords.x - b.x) * 180) / Math.PI;
+      next = { ...b, angle: Math.round(((deg % 180) + 180) % 180) };
+    } else {
+      const { perp } = getBridgeHandles(b);
+      const across = Math.abs((coords.x - b.x) * perp.x + (coords.y - b.y) * perp.y);
+      next = { ...b, width: Math.round(Math.max(0.25, across) * 100) / 100 };
+    }
+    drag.bridge = next;
+    setDraftBridge(next);
+  };
+
+  const commitBridgeDrag = (): boolean => {
+    const drag = bridgeDrag.current;
+    if (!drag) return false;
+    bridgeDrag.current = null;
+    setDraftBridge(null);
+    onSettingsChange({
+      ...settings,
+      manualBridges: settings.manualBridges.map(b => b.id === drag.bridge.id ? drag.bridge : b)
+    });
+    return true;
+  };
+
+  // Adds the colour under the eyedropper (averaged over 3x3 points) to the colour selection
+  const pickColor = (clientX: number, clientY: number) => {
+    const docCtx = docImageRef.current;
+    const coords = getDocCoords(clientX, clientY);
+    if (!docCtx || coords.x < 0 || coords.x >= docW || coords.y < 0 || coords.y >= docH) return;
+    const x = Math.max(0, Math.min(docCtx.canvas.width - 3, Math.floor(coords.x) - 1));
+    const y = Math.max(0, Math.min(docCtx.canvas.height - 3, Math.floor(coords.y) - 1));
+    const data = docCtx.getImageData(x, y, 3, 3).data;
+    const hex = [0, 1, 2].map(c => {
+      let sum = 0;
+      for (let i = 0; i < 9; i++) sum += data[i * 4 + c];
+      return Math.round(sum / 9).toString(16).padStart(2, '0');
+    }).join('');
+    const color = `#${hex}`;
+    const { colorKey } = settings;
+    if (colorKey.colors.includes(color)) return;
+    onSettingsChange({ ...settings, colorKey: { ...colorKey, enabled: true, colors: [...colorKey.colors, color] } });
+  };
+
   const handleMouseDown = (e: React.MouseEvent) => {
     isDragging.current = true;
     lastMousePos.current = { x: e.clientX, y: e.clientY };
     startMousePos.current = { x: e.clientX, y: e.clientY };
+    startBridgeDrag(e.clientX, e.clientY);
 
     if (settings.activeTool === 'eraser') {
       const coords = getDocCoords(e.clientX, e.clientY);
@@ -374,7 +687,9 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
 
     if (!isDragging.current || !lastMousePos.current) return;
 
-    if (settings.activeTool === 'pointer') {
+    if (bridgeDrag.current) {
+      updateBridgeDrag(e.clientX, e.clientY);
+    } else if (settings.activeTool === 'pointer' || settings.activeTool === 'eyedropper') {
       const dx = e.clientX - lastMousePos.current.x;
       const dy = e.clientY - lastMousePos.current.y;
       setTransform(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
@@ -392,11 +707,7 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
 
   const finalizeErase = () => {
     if (isDragging.current && settings.activeTool === 'eraser' && activeErasePath.current && onErasedPathsUpdate) {
-      setIsMaskProcessing(true);
-      const newPaths = [...settings.erasedPaths, activeErasePath.current];
-      setTimeout(() => {
-        onErasedPathsUpdate(newPaths);
-      }, 10);
+      onErasedPathsUpdate([...settings.erasedPaths, activeErasePath.current]);
     }
     isDragging.current = false; 
     lastMousePos.current = null;
@@ -405,36 +716,47 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
   };
 
   const handleMouseUp = (e: React.MouseEvent) => {
+    if (commitBridgeDrag()) {
+      finalizeErase();
+      return;
+    }
     if (isDragging.current && settings.activeTool === 'pointer' && startMousePos.current) {
       const distMoved = Math.sqrt(Math.pow(e.clientX - startMousePos.current.x, 2) + Math.pow(e.clientY - startMousePos.current.y, 2));
-      if (distMoved < 4 && onManualBridgeToggle) {
+      if (distMoved < 4 && onManualBridgeClick) {
         const coords = getDocCoords(e.clientX, e.clientY);
         if (coords.x >= 0 && coords.x < docW && coords.y >= 0 && coords.y < docH) {
-           setIsMaskProcessing(true);
-           setTimeout(() => {
-             onManualBridgeToggle(coords.x, coords.y);
-           }, 10);
+           onManualBridgeClick(coords.x, coords.y);
         }
       }
     }
+    if (isDragging.current && settings.activeTool === 'eyedropper' && startMousePos.current) {
+      const distMoved = Math.hypot(e.clientX - startMousePos.current.x, e.clientY - startMousePos.current.y);
+      if (distMoved < 4) pickColor(e.clientX, e.clientY);
+    }
     finalizeErase();
   };
 
   const handleTouchEnd = (e: React.TouchEvent) => {
+    if (commitBridgeDrag()) {
+      finalizeErase();
+      return;
+    }
     if (isDragging.current && settings.activeTool === 'pointer' && startMousePos.current && e.changedTouches.length > 0) {
       const clientX = e.changedTouches[0].clientX;
       const clientY = e.changedTouches[0].clientY;
       const distMoved = Math.sqrt(Math.pow(clientX - startMousePos.current.x, 2) + Math.pow(clientY - startMousePos.current.y, 2));
-      if (distMoved < 4 && onManualBridgeToggle) {
+      if (distMoved < 4 && onManualBridgeClick) {
         const coords = getDocCoords(clientX, clientY);
         if (coords.x >= 0 && coords.x < docW && coords.y >= 0 && coords.y < docH) {
-           setIsMaskProcessing(true);
-           setTimeout(() => {
-             onManualBridgeToggle(coords.x, coords.y);
-           }, 10);
+           onManualBridgeClick(coords.x, coords.y);
         }
       }
     }
+    if (isDragging.current && settings.activeTool === 'eyedropper' && startMousePos.current && e.changedTouches.length > 0) {
+      const { clientX, clientY } = e.changedTouches[0];
+      const distMoved = Math.hypot(clientX - startMousePos.current.x, clientY - startMousePos.current.y);
+      if (distMoved < 4) pickColor(clientX, clientY);
+    }
     finalizeErase();
   };
 
@@ -451,6 +773,7 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
       const clientY = e.touches[0].clientY;
       lastMousePos.current = { x: clientX, y: clientY };
       startMousePos.current = { x: clientX, y: clientY };
+      startBridgeDrag(clientX, clientY);
       
       if (containerRef.current) {
         const rect = containerRef.current.getBoundingClientRect();
@@ -463,6 +786,8 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
       }
     } else if (e.touches.length === 2) {
       isDragging.current = false;
+      bridgeDrag.current = null;
+      setDraftBridge(null);
       touchState.current = {
         dist: getTouchDist(e.touches[0], e.touches[1]),
         kStart: transform.k,
@@ -481,7 +806,9 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
        
        setMousePos({ x: clientX - rect.left, y: clientY - rect.top });
 
-       if (settings.activeTool === 'pointer') {
+       if (bridgeDrag.current) {
+          updateBridgeDrag(clientX, clientY);
+       } else if (settings.activeTool === 'pointer' || settings.activeTool === 'eyedropper') {
           const dx = clientX - lastMousePos.current.x;
           const dy = clientY - lastMousePos.current.y;
           setTransform(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
@@ -524,10 +851,8 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
     onSettingsChange({ ...settings, brushSize: val });
   };
   
-  // Determine global cursor state for this component
-  const cursorClass = (processing || isMaskProcessing) 
-    ? 'cursor-wait' 
-    : (settings.activeTool === 'eraser' ? 'cursor-none' : 'cursor-crosshair');
+  // Processing runs in the worker, so the canvas keeps its normal cursor and stays interactive
+  const cursorClass = settings.activeTool === 'eraser' ? 'cursor-none' : 'cursor-crosshair';
 
   return (
     <div className="relative w-full h-full bg-neutral-900 overflow-hidden select-none touch-none group">
@@ -562,6 +887,36 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
             >
               <Eraser size={22} />
             </button>
+            <button 
+              onClick={() => onSettingsChange({...settings, activeTool: 'eyedropper'})}
+              className={`p-2.5 rounded-md transition-all ${settings.activeTool === 'eyedropper' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/40' : 'text-neutral-400 hover:bg-neutral-700 hover:text-white'}`}
+              title="Pipet / Kleur kiezen"
+            >
+              <Pipette size={22} />
+            </button>
+            <button 
+              onClick={() => setShowSource(prev => !prev)}
+              className={`p-2.5 rounded-md transition-all ${showSource ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/40' : 'text-neutral-400 hover:bg-neutral-700 hover:text-white'}`}
+              title={showSource ? 'Toon masker' : 'Toon voorbewerkte afbeelding'}
+            >
+              <ImageIcon size={22} />
+            </button>
+            <button 
+              onClick={() => setShowBridges(prev => !prev)}
+              className={`p-2.5 rounded-md transition-all ${showBridges ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/40' : 'text-neutral-400 hover:bg-neutral-700 hover:text-white'}`}
+              title={showBridges ? 'Verberg eilanden en bruggen' : 'Toon eilanden en bruggen'}
+            >
+              <Link2 size={22} />
+            </button>
+            {settings.bezierMode && (
+              <button 
+                onClick={() => setShowFilled(prev => !prev)}
+                className={`p-2.5 rounded-md transition-all ${showFilled ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/40' : 'text-neutral-400 hover:bg-neutral-700 hover:text-white'}`}
+                title={showFilled ? 'Toon lijnen' : 'Toon gevulde vlakken'}
+              >
+                <PaintBucket size={22} />
+              </button>
+            )}
             <div className="h-px bg-neutral-700/50 mx-1" />
             <button 
               onClick={onUndo}
@@ -609,11 +964,24 @@ const PreviewCanvas: React.FC<PreviewCanvasProps> = ({
          )}
       </div>
 
-      {processing && (
-        <div className="absolute inset-0 bg-neutral-900/60 flex items-center justify-center backdrop-blur-[2px] z-10">
-          <div className="flex flex-col items-center gap-3">
-             <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
-             <span className="text-sm font-medium text-white tracking-wide">Vectoriseren...</span>
+      {travel && settings.bezierMode && !processing && travel.before > 0 && (
+        <div className="absolute bottom-4 left-4 z-10 pointer-events-none">
+          <div className="bg-neutral-800/90 backdrop-blur-md border border-neutral-700 rounded-lg shadow-2xl px-3 py-1.5 text-[10px] md:text-xs font-mono text-neutral-300">
+            Verplaatsing: {(travel.after / PT_PER_MM / 1000).toFixed(2)} m
+            <span className="text-emerald-400"> (−{Math.max(0, (travel.before - travel.after) / PT_PER_MM / 1000).toFixed(2)} m, {Math.max(0, Math.round((1 - travel.after / travel.before) * 100))}%)</span>
+          </div>
+        </div>
+      )}
+
+      {(isMaskProcessing || processing) && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 pointer-events-none">
+          <div className="flex items-center gap-3 bg-neutral-800/90 backdrop-blur-md border border-neutral-700 rounded-full shadow-2xl px-4 py-2">
+             <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+             <span className="text-xs font-medium text-white tracking-wide">
+               {isMaskProcessing
+                 ? `Masker: ${maskProgress ? STAGE_LABELS[maskProgress.stage] : 'Voorbereiden'}...`
+                 : `Vectoriseren... ${Math.round(vectorProgress * 100)}%`}
+             </span>
           </div>
         </div>
       )}
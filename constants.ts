@@ -1,9 +1,52 @@
 
-export const A3_SHORT = 842;
-export const A3_LONG = 1191;
+import { AppSettings, PageSizeId } from './types';
 
-export const getA3Dimensions = (orientation: 'portrait' | 'landscape') => {
-  return orientation === 'portrait' 
-    ? { width: A3_SHORT, height: A3_LONG }
-    : { width: A3_LONG, height: A3_SHORT };
+// Document units are PostScript points; page sizes are specified in millimetres
+export const PT_PER_MM = 72 / 25.4;
+
+export interface PageSizePreset {
+  label: string;
+  width: number; // mm, portrait (short side)
+  height: number; // mm, portrait (long side)
+}
+
+export const PAGE_SIZE_PRESETS: Record<Exclude<PageSizeId, 'custom'>, PageSizePreset> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  a3: { label: 'A3', width: 297, height: 420 },
+  a2: { label: 'A2', width: 420, height: 594 },
+  letter: { label: 'US Letter', width: 215.9, height: 279.4 },
+  mat12x12: { label: 'Mat 12"×12"', width: 304.8, height: 304.8 },
+  mat12x24: { label: 'Mat 12"×24"', width: 304.8, height: 609.6 }
+};
+
+export const CUSTOM_PAGE_MIN_MM = 20;
+export const CUSTOM_PAGE_MAX_MM = 1200;
+
+type PageSettings = Pick<AppSettings, 'pageSize' | 'customPageSize' | 'orientation'>;
+
+export const getPageLabel = (settings: PageSettings) => {
+  return settings.pageSize === 'custom' ? 'Aangepast' : PAGE_SIZE_PRESETS[settings.pageSize].label;
+};
+
+/**
+ * Page size in millimetres, rotated for the chosen orientation.
+ */
+export const getPageSizeMm = (settings: PageSettings) => {
+  const base = settings.pageSize === 'custom'
+    ? {
+        width: Math.min(CUSTOM_PAGE_MAX_MM, Math.max(CUSTOM_PAGE_MIN_MM, settings.customPageSize.width || CUSTOM_PAGE_MIN_MM)),
+        height: Math.min(CUSTOM_PAGE_MAX_MM, Math.max(CUSTOM_PAGE_MIN_MM, settings.customPageSize.height || CUSTOM_PAGE_MIN_MM))
+      }
+    : PAGE_SIZE_PRESETS[settings.pageSize];
+  return settings.orientation === 'portrait'
+    ? { width: base.width, height: base.height }
+    : { width: base.height, height: base.width };
+};
+
+/**
+ * Page size in document units (points), used for the preview, the mask resolution and the exports.
+ */
+export const getPageDimensions = (settings: PageSettings) => {
+  const { width, height } = getPageSizeMm(settings);
+  return { width: width * PT_PER_MM, height: height * PT_PER_MM };
 };
@@ -1,19 +1,166 @@
 
+export type ThresholdMode = 'manual' | 'otsu' | 'adaptiveMean' | 'adaptiveGaussian' | 'sauvola';
+
+// Image adjustments applied before binarization
+export interface PreprocessSettings {
+  brightness: number; // -100..100
+  contrast: number; // -100..100
+  gamma: number;
+  blur: number; // Gaussian blur sigma in mm
+  sharpen: number; // Unsharp mask amount
+  denoise: number; // Median filter radius in mm
+  invert: boolean; // For white-on-black artwork
+}
+
+export type OriginCorner = 'bottom-left' | 'top-left' | 'bottom-right' | 'top-right' | 'center';
+
+// Machine settings for G-code output (GRBL-style lasers and pen plotters)
+export interface GcodeSettings {
+  toolMode: 'laser' | 'pen';
+  feedRate: number; // mm/min while cutting or drawing
+  power: number; // Laser S-value
+  penUp: string; // Command(s) that lift the pen
+  penDown: string; // Command(s) that lower the pen
+  passes: number;
+  origin: OriginCorner;
+  flipY: boolean; // For machines whose Y axis points away from the operator's "down"
+}
+
+// Drag-knife vinyl cutter settings for HPGL/PLT output
+export interface HpglSettings {
+  unitsPerMm: number; // Plotter units per millimetre, 40 for most cutters
+  overcut: number; // mm cut past the start point of closed contours
+  bladeOffset: number; // mm between the blade tip and the tool axis, 0 disables compensation
+  startAtCorner: boolean; // Start each closed contour at its sharpest corner
+}
+
+// Laser software maps stroke colours to operations
+export type OutputLayer = 'cut' | 'engrave' | 'score';
+
+export interface LayerStyle {
+  color: string; // #rrggbb
+  strokeWidth: number; // mm
+}
+
+// Which layer each kind of output geometry goes to
+export interface LayerSettings {
+  styles: Record<OutputLayer, LayerStyle>;
+  outlines: OutputLayer; // Traced outlines and centre lines
+  fills: OutputLayer | null; // Filled regions for raster engraving, null leaves them out
+  offsets: OutputLayer | null; // Outlines offset by offsetDistance, null leaves them out
+  offsetDistance: number; // mm, positive grows the dark regions
+}
+
+export type SvgMode = 'lines' | 'filled';
+
+// SVG output settings
+export interface SvgSettings {
+  mode: SvgMode; // Stroked lines per output layer for cutting, or filled regions for print and engraving
+  fillColor: string; // #rrggbb of the filled regions
+  background: string | null; // #rrggbb behind the filled regions, null for transparent
+}
+
+export type DxfVersion = 'r12' | 'r2000';
+
+// DXF output settings
+export interface DxfSettings {
+  version: DxfVersion; // R12 (AC1009) for older software, R2000 (AC1015) for LWPOLYLINE, ELLIPSE and SPLINE
+  splines: boolean; // R2000 only: curves as SPLINE entities instead of flattened polylines
+  bridgeLayer: boolean; // Pixel bridges as reference rectangles on the BRIDGE layer; vector bridges always get them
+}
+
+export type JoinStyle = 'round' | 'miter';
+
+// Laser kerf / tool diameter compensation of closed contours
+export interface KerfSettings {
+  width: number; // mm, 0 disables compensation
+  join: JoinStyle;
+  // 'opening': the dark regions are cut away (stencil openings), so they shrink by half the kerf.
+  // 'part': the dark regions are the parts that are kept, so they grow by half the kerf.
+  keep: 'opening' | 'part';
+}
+
+export type TraceMode = 'outline' | 'centerline';
+
+// 'smooth': uniform smoothing with control points on every vertex (vectorSmoothing).
+// 'corners': corners stay sharp, straight runs become lines and the rest least-squares Beziers.
+export type CurveFitMode = 'smooth' | 'corners';
+
+export interface CurveFitSettings {
+  mode: CurveFitMode;
+  cornerAngle: number; // Degrees; sharper turns are kept as corners
+  tolerance: number; // mm, maximum distance between the traced contour and the fitted curve
+  primitives: boolean; // Contours within the tolerance of a circle, ellipse or circular arc become native primitives
+}
+
+// A closed contour recognized as a circle or ellipse, document units. `rotation` is the angle of
+// the x radius in radians, measured with the Y axis pointing down like the document.
+export type Primitive =
+  | { kind: 'circle'; cx: number; cy: number; r: number }
+  | { kind: 'ellipse'; cx: number; cy: number; rx: number; ry: number; rotation: number };
+
+export type PosterizeMethod = 'luminance' | 'kmeans';
+
+// Multi-level posterization: one mask per tone band, for stencils sprayed or printed in layers
+export interface PosterizeSettings {
+  enabled: boolean;
+  levels: number; // 2-6 tone bands
+  method: PosterizeMethod; // Equal luminance ranges, or k-means clusters of the colours
+  hiddenLayers: number[]; // Bands left out of the preview and the export, 0 is the darkest
+  registrationMarks: boolean; // Marks in three corners of every layer, for lining the layers up
+}
+
+export type ColorSpace = 'hsv' | 'lab';
+
+// Masking by picked colours instead of a luminance threshold
+export interface ColorKeySettings {
+  enabled: boolean;
+  colors: string[]; // #rrggbb, picked with the eyedropper
+  space: ColorSpace; // Colour distance in the HSV cone or as CIE76 ΔE in L*a*b*
+  tolerance: number; // 0-100, maximum distance from a picked colour
+  removeBackground: boolean; // The picked colours are the background and everything else becomes dark
+}
+
+export type PageSizeId = 'a4' | 'a3' | 'a2' | 'letter' | 'mat12x12' | 'mat12x24' | 'custom';
+
 export interface AppSettings {
   threshold: number;
+  thresholdMode: ThresholdMode;
+  adaptiveWindow: number; // Local threshold window in mm
+  adaptiveOffset: number; // Subtracted from the local mean (mean/Gaussian modes)
+  sauvolaK: number; // Sauvola sensitivity
+  preprocess: PreprocessSettings;
   scale: number;
   imageSize: number; // Controls the size of the image on the canvas (10-100%)
   smooth: number; // Bitmap smoothing
   vectorSmoothing: number; // Vector path smoothing
+  curveFit: CurveFitSettings;
   stencilMode: boolean;
   bezierMode: boolean;
+  traceMode: TraceMode; // Outline contours for cutting, or single-stroke centre lines for plotting/engraving
+  subpixelContours: boolean; // Outlines by marching squares on the greyscale image instead of through the pixel centres
+  optimizeCutOrder: boolean; // Inner contours first, then shortest travel
+  kerf: KerfSettings;
+  minFeatureWidth: number; // mm, features narrower than this are flagged; 0 disables the check
   bridgeWidth: number;
   bridgeCount: number; // Target number of bridges for stability
+  vectorBridges: boolean; // Cut bridges out of the traced contours as exact rectangles instead of painting them into the mask
   designName: string;
   orientation: 'portrait' | 'landscape';
-  manualBridges: { x: number; y: number }[];
-  activeTool: 'pointer' | 'eraser';
+  pageSize: PageSizeId;
+  customPageSize: { width: number; height: number }; // mm, used when pageSize is 'custom'
+  manualBridges: ManualBridge[];
+  lockedBridges: BridgeSegment[]; // Auto bridges pinned by the user, document units
+  removedBridges: { x: number; y: number }[]; // Midpoints of auto bridges the user deleted
+  activeTool: 'pointer' | 'eraser' | 'eyedropper';
   brushSize: number;
+  gcode: GcodeSettings;
+  hpgl: HpglSettings;
+  dxf: DxfSettings;
+  layers: LayerSettings;
+  svg: SvgSettings;
+  posterize: PosterizeSettings;
+  colorKey: ColorKeySettings;
   erasedPaths: { points: { x: number; y: number }[]; size: number }[];
 }
 
@@ -22,7 +169,100 @@ export interface ImageDimensions {
   height: number;
 }
 
-export type MaskGrid = boolean[][];
+// Binary mask, one byte per pixel in row-major order: 1 is dark (material), 0 light.
+// Index with data[y * width + x]; see utils/mask.ts for the helpers.
+export interface MaskGrid {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Rectangle of mask pixels, x1 and y1 exclusive
+export interface MaskRect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// One traced boundary in document units. Outer boundaries and holes alternate with depth:
+// an outer contour's holes point to it as parent, islands inside a hole point to the hole.
+export interface ContourNode {
+  points: number[][];
+  hole: boolean;
+  parent: number; // Index of the enclosing contour, -1 for top-level outer contours
+}
+
+// A traced ring or centre line as cut by the machine. Centre lines are open and have no parent.
+export interface CutPath extends ContourNode {
+  closed: boolean;
+  primitive?: Primitive; // Exact shape of the contour; `points` still holds the traced ring
+}
+
+// A group of rings traced from the mask. Closed shapes are an outer boundary followed by its
+// holes (one even-odd compound path); open shapes hold a single centre line.
+export interface TracedShape {
+  rings: number[][][];
+  closed: boolean;
+  primitives?: (Primitive | undefined)[]; // Per ring, when any ring was recognized as a primitive
+}
+
+// A bridge placed by the user. It runs through the centre point until it leaves the dark
+// region on both sides; without an angle it takes the shortest of 12 directions.
+export interface ManualBridge {
+  id: string;
+  x: number; // Centre, document units
+  y: number;
+  angle: number | null; // Degrees, 0 = along +X, clockwise on screen
+  width: number | null; // Radius in document units, null follows bridgeWidth
+}
+
+// A bridge carved across a dark region, from (x1, y1) to (x2, y2) with the given radius
+export interface BridgeSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width: number;
+}
+
+// 'auto' bridges are placed by the stencil pass, 'manual' ones come from manualBridges and
+// 'locked' ones are auto bridges the user pinned in place.
+export interface BridgeInfo extends BridgeSegment {
+  kind: 'auto' | 'manual' | 'locked';
+  island: number; // Index into BridgeReport.islands, -1 for manual bridges
+  id?: string; // ManualBridge.id of manual bridges
+}
+
+// A light region that did not reach the sheet edge and needed bridges to stay attached
+export interface IslandInfo {
+  x: number; // Centroid
+  y: number;
+  area: number; // Mask pixels inside postProcessMask, mm² once reported by the pipeline
+  bridges: number;
+}
+
+export interface BridgeReport {
+  islands: IslandInfo[];
+  bridges: BridgeInfo[];
+}
+
+// A feature narrower than the minimum width, found by the manufacturability check.
+// 'opening' is a narrow cut-out region, 'material' a thin strip of sheet such as a bridge,
+// 'kerf' a part or gap thinner than the kerf, which kerf compensation removes or closes.
+export interface DrcViolation {
+  kind: 'opening' | 'material' | 'kerf';
+  x: number; // Centre of the bounding box, document units
+  y: number;
+  width: number; // Bounding box size, document units
+  height: number;
+  featureWidth: number; // Estimated width at the widest point of the thin part, mm
+}
+
+// A mask as passed to and from the pipeline worker, with the buffers transferred
+export interface PackedMask extends MaskGrid {
+  edges?: Uint8Array; // Edge field for sub-pixel contours (see buildEdgeField), present with settings.subpixelContours
+}
 
 export interface ProcessedResult {
   mask: MaskGrid;
@@ -0,0 +1,154 @@
+import { MaskGrid } from '../types';
+
+// Clockwise from north, the P2..P9 order used by Zhang-Suen
+const RING = [[0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1]];
+
+/**
+ * Zhang-Suen thinning. Returns a one-pixel-wide, 8-connected skeleton (1 = skeleton pixel).
+ */
+export function zhangSuenThin(mask: MaskGrid, w: number, h: number): Uint8Array {
+  const img = mask.data.slice();
+
+  const p = new Uint8Array(8);
+  const toClear: number[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let pass = 0; pass < 2; pass++) {
+      toClear.length = 0;
+      for (let y = 1; y < h - 1; y++) {
+        for (let x = 1; x < w - 1; x++) {
+          if (!img[y * w + x]) continue;
+          let count = 0;
+          for (let k = 0; k < 8; k++) {
+            p[k] = img[(y + RING[k][1]) * w + x + RING[k][0]];
+            count += p[k];
+          }
+          if (count < 2 || count > 6) continue;
+          let transitions = 0;
+          for (let k = 0; k < 8; k++) if (!p[k] && p[(k + 1) % 8]) transitions++;
+          if (transitions !== 1) continue;
+          // p[0]=N, p[2]=E, p[4]=S, p[6]=W
+          if (pass === 0 ? (p[0] && p[2] && p[4]) || (p[2] && p[4] && p[6]) : (p[0] && p[2] && p[6]) || (p[0] && p[4] && p[6])) continue;
+          toClear.push(y * w + x);
+        }
+      }
+      for (const idx of toClear) img[idx] = 0;
+      if (toClear.length) changed = true;
+    }
+  }
+  return img;
+}
+
+/**
+ * Number of separate skeleton branches around a pixel (0->1 transitions around its ring).
+ * 1 = end point, 2 = path pixel, 3+ = junction. More robust than a plain neighbour count
+ * on the staircase corners thinning leaves behind.
+ */
+function branchCount(skel: Uint8Array, w: number, h: number, x: number, y: number): number {
+  let transitions = 0;
+  let prev = 0;
+  for (let k = 0; k <= 8; k++) {
+    const [dx, dy] = RING[k % 8];
+    const nx = x + dx, ny = y + dy;
+    const v = nx >= 0 && ny >= 0 && nx < w && ny < h ? skel[ny * w + nx] : 0;
+    if (k > 0 && !prev && v) transitions++;
+    prev = v;
+  }
+  return transitions;
+}
+
+/**
+ * Splits a skeleton into polylines of pixel coordinates. Branches run between end points and
+ * junctions; loops without any junction (the centre line of an "O") come back as closed paths.
+ */
+export function traceSkeleton(skel: Uint8Array, w: number, h: number): { points: number[][]; closed: boolean }[] {
+  const isNode = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (skel[y * w + x] && branchCount(skel, w, h, x, y) !== 2) isNode[y * w + x] = 1;
+    }
+  }
+
+  const visited = new Uint8Array(w * h);
+  const usedLinks = new Set<number>(); // Direct node-to-node steps, keyed by the pixel pair
+  const paths: { points: number[][]; closed: boolean }[] = [];
+
+  const neighbours = (idx: number) => {
+    const x = idx % w, y = (idx - x) / w;
+    const out: number[] = [];
+    // 4-neighbours first so walks follow the line instead of cutting staircase corners
+    for (const k of [0, 2, 4, 6, 1, 3, 5, 7]) {
+      const nx = x + RING[k][0], ny = y + RING[k][1];
+      if (nx >= 0 && ny >= 0 && nx < w && ny < h && skel[ny * w + nx]) out.push(ny * w + nx);
+    }
+    return out;
+  };
+
+  const walk = (start: number, first: number) => {
+    const chain = [start, first];
+    let prev = start, cur = first;
+    while (!isNode[cur]) {
+      visited[cur] = 1;
+      const next = neighbours(cur).find(n => n !== prev && n !== start && (isNode[n] || !visited[n]))
+        ?? neighbours(cur).find(n => n === start && chain.length > 2);
+      if (next === undefined) break;
+      chain.push(next);
+      prev = cur;
+      cur = next;
+      if (cur === start) break;
+    }
+    return chain;
+  };
+
+  for (let idx = 0; idx < w * h; idx++) {
+    if (!isNode[idx]) continue;
+    for (const n of neighbours(idx)) {
+      if (isNode[n]) {
+        const key = Math.min(idx, n) * w * h + Math.max(idx, n);
+        if (usedLinks.has(key)) continue;
+        usedLinks.add(key);
+        paths.push({ points: [idx, n].map(i => [i % w, Math.floor(i / w)]), closed: false });
+      } else if (!visited[n]) {
+        const chain = walk(idx, n);
+        paths.push({ points: chain.map(i => [i % w, Math.floor(i / w)]), closed: false });
+      }
+    }
+  }
+
+  // Whatever is left consists of pure loops
+  for (let idx = 0; idx < w * h; idx++) {
+    if (!skel[idx] || visited[idx] || isNode[idx]) continue;
+    const next = neighbours(idx)[0];
+    if (next === undefined) continue;
+    visited[idx] = 1;
+    const chain = walk(idx, next);
+    if (chain[chain.length - 1] === idx) chain.pop();
+    paths.push({ points: chain.map(i => [i % w, Math.floor(i / w)]), closed: chain.length > 2 });
+  }
+
+  return paths;
+}
+
+/**
+ * Single-stroke centre lines of the mask in document units. Spurs (short branches ending
+ * in a free end, mostly thinning artefacts at corners) shorter than `minSpur` pixels are dropped.
+ */
+export function extractCenterlines(mask: MaskGrid, w: number, h: number, docWidth: number, docHeight: number, minSpur = 4): { points: number[][]; closed: boolean }[] {
+  if (!mask) return [];
+  const skel = zhangSuenThin(mask, w, h);
+  const sx = docWidth / w, sy = docHeight / h;
+
+  return traceSkeleton(skel, w, h)
+    .filter(path => {
+      if (path.closed) return true;
+      const [first, last] = [path.points[0], path.points[path.points.length - 1]];
+      const freeEnd = [first, last].some(([x, y]) => branchCount(skel, w, h, x, y) <= 1);
+      const isolated = [first, last].every(([x, y]) => branchCount(skel, w, h, x, y) <= 1);
+      return isolated ? path.points.length >= 2 : !(freeEnd && path.points.length < minSpur);
+    })
+    .map(path => ({
+      points: path.points.map(([px, py]) => [(px + 0.5) * sx, (py + 0.5) * sy]),
+      closed: path.closed
+    }));
+}
@@ -0,0 +1,73 @@
+import { ColorKeySettings, MaskGrid } from '../types';
+import { maskFromTest } from './mask';
+
+type Vec3 = [number, number, number];
+
+const parseHex = (hex: string): Vec3 => [parseInt(hex.slice(1, 3), 16), parseInt(hex.slice(3, 5), 16), parseInt(hex.slice(5, 7), 16)];
+
+const srgbToLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+};
+
+// D65 white point
+const XN = 0.95047, YN = 1, ZN = 1.08883;
+const labF = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (t * 24389) / 27 / 116 + 16 / 116);
+
+/**
+ * CIE L*a*b* of an sRGB colour, so that the Euclidean distance is the CIE76 ΔE.
+ */
+export function rgbToLab(r: number, g: number, b: number): Vec3 {
+  const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b);
+  const fx = labF((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / XN);
+  const fy = labF((0.2126 * lr + 0.7152 * lg + 0.0722 * lb) / YN);
+  const fz = labF((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / ZN);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * An sRGB colour as a point in the HSV cone, scaled to 0-100: hue as the angle, saturation
+ * times value as the radius and value as the height. Greys then lie on the axis whatever
+ * their hue, and the hue wraps around.
+ */
+export function rgbToHsvCone(r: number, g: number, b: number): Vec3 {
+  const max = Math.max(r, g, b), min = Math.min(r, g, b);
+  const chroma = max - min;
+  let hue = 0;
+  if (chroma > 0) {
+    if (max === r) hue = ((g - b) / chroma) % 6;
+    else if (max === g) hue = (b - r) / chroma + 2;
+    else hue = (r - g) / chroma + 4;
+  }
+  const angle = (hue * Math.PI) / 3;
+  // Saturation times value is the chroma
+  const radius = (chroma / 255) * 50;
+  return [radius * Math.cos(angle), radius * Math.sin(angle), (max / 255) * 100];
+}
+
+/**
+ * Masks the pixels by colour instead of luminance: dark are the pixels within
+ * `settings.tolerance` of one of the picked colours, or with removeBackground all pixels
+ * that match none of them. Works on the original colours; the pre-processing only applies
+ * to the luminance modes.
+ */
+export function colorKeyMask(rgba: Uint8ClampedArray, w: number, h: number, settings: ColorKeySettings): MaskGrid {
+  const convert = settings.space === 'lab' ? rgbToLab : rgbToHsvCone;
+  const keys = settings.colors.map(hex => convert(...parseHex(hex)));
+  const tol2 = settings.tolerance * settings.tolerance;
+
+  // Flat artwork has few distinct colours, so each is converted once
+  const cache = new Map<number, boolean>();
+  const matches = (r: number, g: number, b: number) => {
+    const key = (r << 16) | (g << 8) | b;
+    let hit = cache.get(key);
+    if (hit === undefined) {
+      const c = convert(r, g, b);
+      hit = keys.some(k => (c[0] - k[0]) ** 2 + (c[1] - k[1]) ** 2 + (c[2] - k[2]) ** 2 <= tol2);
+      if (cache.size < 1 << 18) cache.set(key, hit);
+    }
+    return hit;
+  };
+
+  return maskFromTest(w, h, idx => matches(rgba[idx * 4], rgba[idx * 4 + 1], rgba[idx * 4 + 2]) !== settings.removeBackground);
+}
@@ -0,0 +1,404 @@
+import { CurveFitSettings } from '../types';
+import { PT_PER_MM } from '../constants';
+
+// Corners are judged between points this many pixels along the contour on either side
+const CORNER_WINDOW_PX = 3;
+// Below this the fit would start following the pixel staircase
+const MIN_TOLERANCE_PX = 0.75;
+const MAX_REPARAMETERIZE = 4;
+
+// Arcs shorter than this are left to the line and Bezier fit; longer ones would be whole circles
+const MIN_ARC_SWEEP = 0.3;
+const MAX_ARC_SWEEP = 2 * Math.PI - 0.3;
+// Pixel centres traced along a drawn arc wander about a pixel around it, and the exact arc is
+// closer to the drawing than the staircase, so arcs get a little more room than curves
+const MIN_ARC_TOLERANCE_PX = 1;
+
+// One piece of a fitted path: a straight line, a cubic Bezier when it has control points, or a
+// circular arc when it has a sweep (radians, positive in the direction of increasing atan2)
+export interface FitSegment {
+  c1?: number[];
+  c2?: number[];
+  sweep?: number;
+  to: number[];
+}
+
+export interface FittedPath {
+  start: number[];
+  segments: FitSegment[];
+  closed: boolean;
+}
+
+const add = (a: number[], b: number[]) => [a[0] + b[0], a[1] + b[1]];
+const sub = (a: number[], b: number[]) => [a[0] - b[0], a[1] - b[1]];
+const scale = (a: number[], s: number) => [a[0] * s, a[1] * s];
+const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1];
+const dist = (a: number[], b: number[]) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+const unit = (a: number[]) => {
+  const l = Math.hypot(a[0], a[1]);
+  return l === 0 ? [0, 0] : [a[0] / l, a[1] / l];
+};
+
+function bezierPoint(p0: number[], c1: number[], c2: number[], p3: number[], t: number): number[] {
+  const mt = 1 - t;
+  const a = mt * mt * mt, b = 3 * mt * mt * t, c = 3 * mt * t * t, d = t * t * t;
+  return [a * p0[0] + b * c1[0] + c * c2[0] + d * p3[0], a * p0[1] + b * c1[1] + c * c2[1] + d * p3[1]];
+}
+
+// Traced contours step from pixel to pixel, so the shortest step is the pixel size
+function pixelSize(points: number[][]): number {
+  let min = Infinity;
+  for (let i = 1; i < points.length; i++) {
+    const d = dist(points[i], points[i - 1]);
+    if (d > 0 && d < min) min = d;
+  }
+  return Number.isFinite(min) ? min : 1;
+}
+
+/**
+ * The fit tolerance in document units for a traced contour: `toleranceMm`, but never tighter
+ * than 0.75 pixel.
+ */
+export function fitTolerance(points: number[][], toleranceMm: number): number {
+  return Math.max(toleranceMm * PT_PER_MM, pixelSize(points) * MIN_TOLERANCE_PX);
+}
+
+// Centre of the arc from a to b that turns through `sweep`
+function arcCentre(a: number[], b: number[], sweep: number): number[] {
+  const mid = scale(add(a, b), 0.5);
+  const normal = unit([a[1] - b[1], b[0] - a[0]]);
+  return add(mid, scale(normal, dist(a, b) / 2 / Math.tan(sweep / 2)));
+}
+
+/**
+ * Indices of the corners of a traced contour: vertices where the direction turns by more than
+ * `threshold` radians, measured between points `reach` away along the contour so the pixel
+ * staircase does not count. Only the sharpest vertex of each bend is kept.
+ */
+function findCorners(points: number[][], closed: boolean, reach: number, threshold: number): number[] {
+  const n = points.length;
+  const walk = (i: number, dir: 1 | -1) => {
+    let k = i, travelled = 0;
+    for (let step = 0; step < n - 1 && travelled < reach; step++) {
+      const next = k + dir;
+      if (!closed && (next < 0 || next >= n)) break;
+      const wrapped = (next + n) % n;
+      travelled += dist(points[k], points[wrapped]);
+      k = wrapped;
+    }
+    return k;
+  };
+
+  const candidates: { index: number; angle: number }[] = [];
+  for (let i = closed ? 0 : 1; i < (closed ? n : n - 1); i++) {
+    const a = points[walk(i, -1)], b = points[walk(i, 1)], p = points[i];
+    const v1 = unit(sub(p, a)), v2 = unit(sub(b, p));
+    const angle = Math.acos(Math.max(-1, Math.min(1, dot(v1, v2))));
+    if (angle > threshold) candidates.push({ index: i, angle });
+  }
+
+  // Neighbours of a sharp vertex also turn sharply; keep the sharpest within the window
+  const window = Math.max(1, Math.round(reach / pixelSize(points)));
+  const gap = (i: number, j: number) => closed ? Math.min(Math.abs(i - j), n - Math.abs(i - j)) : Math.abs(i - j);
+  const corners: number[] = [];
+  candidates
+    .sort((p, q) => q.angle - p.angle)
+    .forEach(({ index }) => {
+      if (corners.every(c => gap(c, index) > window)) corners.push(index);
+    });
+  return corners.sort((p, q) => p - q);
+}
+
+// One [1 2 1] pass that takes the edge off the pixel staircase; the run's end points stay put
+function relax(run: number[][]): number[][] {
+  return run.map((p, i) => i === 0 || i === run.length - 1 ? p : [
+    (run[i - 1][0] + 2 * p[0] + run[i + 1][0]) / 4,
+    (run[i - 1][1] + 2 * p[1] + run[i + 1][1]) / 4
+  ]);
+}
+
+function chordDeviation(pts: number[][]): number {
+  const a = pts[0], b = pts[pts.length - 1];
+  const len = dist(a, b);
+  let max = 0;
+  for (const p of pts) {
+    const d = len === 0 ? dist(p, a) : Math.abs((b[0] - a[0]) * (a[1] - p[1]) - (a[0] - p[0]) * (b[1] - a[1])) / len;
+    if (d > max) max = d;
+  }
+  return max;
+}
+
+function chordParameters(pts: number[][]): number[] {
+  const u = [0];
+  for (let i = 1; i < pts.length; i++) u.push(u[i - 1] + dist(pts[i], pts[i - 1]));
+  const total = u[u.length - 1] || 1;
+  return u.map(v => v / total);
+}
+
+// Least-squares control points for the given parameters, with the end tangents fixed
+function generateBezier(pts: number[][], u: number[], tan1: number[], tan2: number[]): number[][] {
+  const first = pts[0], last = pts[pts.length - 1];
+  let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+  u.forEach((t, i) => {
+    const mt = 1 - t;
+    const a1 = scale(tan1, 3 * mt * mt * t);
+    const a2 = scale(tan2, 3 * mt * t * t);
+    c00 += dot(a1, a1);
+    c01 += dot(a1, a2);
+    c11 += dot(a2, a2);
+    const tmp = sub(pts[i], bezierPoint(first, first, last, last, t));
+    x0 += dot(a1, tmp);
+    x1 += dot(a2, tmp);
+  });
+  const det = c00 * c11 - c01 * c01;
+  let alpha1 = det === 0 ? 0 : (x0 * c11 - x1 * c01) / det;
+  let alpha2 = det === 0 ? 0 : (c00 * x1 - c01 * x0) / det;
+  // Degenerate or reversed handles fall back to a third of the chord
+  const segLength = dist(first, last);
+  if (alpha1 < 1e-6 * segLength || alpha2 < 1e-6 * segLength) alpha1 = alpha2 = segLength / 3;
+  return [first, add(first, scale(tan1, alpha1)), add(last, scale(tan2, alpha2)), last];
+}
+
+function maxError(pts: number[][], bez: number[][], u: number[]): { error: number; index: number } {
+  let error = 0, index = Math.floor(pts.length / 2);
+  for (let i = 1; i < pts.length - 1; i++) {
+    const d = dist(bezierPoint(bez[0], bez[1], bez[2], bez[3], u[i]), pts[i]);
+    if (d > error) { error = d; index = i; }
+  }
+  return { error, index };
+}
+
+// One Newton step per point towards the parameter of its closest point on the curve
+function reparameterize(pts: number[][], bez: number[][], u: number[]): number[] {
+  const [p0, p1, p2, p3] = bez;
+  const d1 = [scale(sub(p1, p0), 3), scale(sub(p2, p1), 3), scale(sub(p3, p2), 3)];
+  const d2 = [scale(sub(d1[1], d1[0]), 2), scale(sub(d1[2], d1[1]), 2)];
+  return u.map((t, i) => {
+    const mt = 1 - t;
+    const q = bezierPoint(p0, p1, p2, p3, t);
+    const q1 = add(add(scale(d1[0], mt * mt), scale(d1[1], 2 * mt * t)), scale(d1[2], t * t));
+    const q2 = add(scale(d2[0], mt), scale(d2[1], t));
+    const diff = sub(q, pts[i]);
+    const den = dot(q1, q1) + dot(diff, q2);
+    return den === 0 ? t : Math.max(0, Math.min(1, t - dot(diff, q1) / den));
+  });
+}
+
+/**
+ * The sweep of a circular arc from the first to the last point that passes within `tolerance`
+ * of every point, or null. The centre is the least-squares circle centre (Kasa fit) moved onto
+ * the bisector of the chord, so the arc ends exactly at the run's ends.
+ */
+function fitArc(pts: number[][], tolerance: number): number | null {
+  const n = pts.length;
+  if (n < 6) return null;
+  const first = pts[0], last = pts[n - 1];
+  let mx = 0, my = 0;
+  for (const [x, y] of pts) { mx += x / n; my += y / n; }
+  let suu = 0, svv = 0, suv = 0, ru = 0, rv = 0;
+  for (const [x, y] of pts) {
+    const u = x - mx, v = y - my;
+    suu += u * u; svv += v * v; suv += u * v;
+    ru += (u * u * u + u * v * v) / 2;
+    rv += (v * v * v + v * u * u) / 2;
+  }
+  const det = suu * svv - suv * suv;
+  if (Math.abs(det) < 1e-12) return null;
+  const fitted = [mx + (ru * svv - rv * suv) / det, my + (suu * rv - suv * ru) / det];
+
+  const mid = scale(add(first, last), 0.5);
+  const along = unit(sub(last, first));
+  const normal = [-along[1], along[0]];
+  const centre = add(mid, scale(normal, dot(sub(fitted, mid), normal)));
+  const r = dist(centre, first);
+
+  let sweep = 0;
+  let prev = Math.atan2(first[1] - centre[1], first[0] - centre[0]);
+  for (const p of pts) {
+    if (Math.abs(dist(p, centre) - r) > tolerance) return null;
+    const angle = Math.atan2(p[1] - centre[1], p[0] - centre[0]);
+    let step = angle - prev;
+    while (step > Math.PI) step -= 2 * Math.PI;
+    while (step < -Math.PI) step += 2 * Math.PI;
+    sweep += step;
+    prev = angle;
+  }
+  return Math.abs(sweep) >= MIN_ARC_SWEEP && Math.abs(sweep) <= MAX_ARC_SWEEP ? sweep : null;
+}
+
+/**
+ * Fits one run between corners (Schneider's algorithm): straight when all points lie within
+ * the tolerance of the chord, otherwise a least-squares cubic that is split at the worst
+ * point, with a shared tangent there, until every piece is within the tolerance.
+ */
+function fitRun(pts: number[][], tan1: number[], tan2: number[], tolerance: number, out: FitSegment[], allowLine = true, arcTolerance = 0) {
+  const last = pts[pts.length - 1];
+  // Only whole runs become lines: a line inside a curve would put a kink at both its ends
+  if (pts.length <= 2 || (allowLine && chordDeviation(pts) <= tolerance)) {
+    out.push({ to: last });
+    return;
+  }
+  // Likewise for arcs, which is where they occur in drawings: between two corners
+  const sweep = allowLine && arcTolerance > 0 ? fitArc(pts, arcTolerance) : null;
+  if (sweep !== null) {
+    out.push({ sweep, to: last });
+    return;
+  }
+
+  let u = chordParameters(pts);
+  let bez = generateBezier(pts, u, tan1, tan2);
+  let { error, index } = maxError(pts, bez, u);
+  for (let it = 0; error > tolerance && error < tolerance * 4 && it < MAX_REPARAMETERIZE; it++) {
+    u = reparameterize(pts, bez, u);
+    bez = generateBezier(pts, u, tan1, tan2);
+    ({ error, index } = maxError(pts, bez, u));
+  }
+  if (error <= tolerance) {
+    out.push({ c1: bez[1], c2: bez[2], to: last });
+    return;
+  }
+
+  const split = Math.max(1, Math.min(pts.length - 2, index));
+  const centre = unit(sub(pts[split - 1], pts[split + 1]));
+  fitRun(pts.slice(0, split + 1), tan1, centre, tolerance, out, false);
+  fitRun(pts.slice(split), scale(centre, -1), tan2, tolerance, out, false);
+}
+
+// Direction leaving pts[0] into the run, from a few points ahead so one pixel step does not decide it
+const endTangent = (pts: number[][], from: number, dir: 1 | -1) => {
+  const to = Math.max(0, Math.min(pts.length - 1, from + dir * 3));
+  return unit(sub(pts[to], pts[from]));
+};
+
+/**
+ * Fits a traced contour with sharp corners, straight lines and cubic Beziers, and with circular
+ * arcs when `settings.primitives` is on. Corners turn by more than `settings.cornerAngle`;
+ * between them every point stays within `settings.tolerance` mm of the result (never tighter
+ * than 0.75 pixel). Points are in document units.
+ */
+export function fitContour(points: number[][], closed: boolean, settings: CurveFitSettings): FittedPath {
+  const px = pixelSize(points);
+  const tolerance = fitTolerance(points, settings.tolerance);
+  const arcTolerance = settings.primitives ? Math.max(tolerance, px * MIN_ARC_TOLERANCE_PX) : 0;
+  const corners = findCorners(points, closed, px * CORNER_WINDOW_PX, (settings.cornerAngle * Math.PI) / 180);
+  const segments: FitSegment[] = [];
+
+  if (!closed) {
+    const bounds = [0, ...corners, points.length - 1];
+    for (let k = 0; k < bounds.length - 1; k++) {
+      const run = relax(points.slice(bounds[k], bounds[k + 1] + 1));
+      fitRun(run, endTangent(run, 0, 1), endTangent(run, run.length - 1, -1), tolerance, segments, true, arcTolerance);
+    }
+    return { start: points[0], segments, closed };
+  }
+
+  if (corners.length === 0) {
+    // A smooth ring: start anywhere and keep the tangent continuous across the seam
+    const n = points.length;
+    const run = relax([...points, points[0]]);
+    const seam = unit(sub(points[1], points[n - 1]));
+    fitRun(run, seam, scale(seam, -1), tolerance, segments);
+    return { start: points[0], segments, closed };
+  }
+
+  const n = points.length;
+  for (let k = 0; k < corners.length; k++) {
+    const from = corners[k], to = corners[(k + 1) % corners.length];
+    const run: number[][] = [];
+    for (let i = from; ; i = (i + 1) % n) {
+      run.push(points[i]);
+      if (i === to && run.length > 1) break;
+    }
+    const relaxed = relax(run);
+    fitRun(relaxed, endTangent(relaxed, 0, 1), endTangent(relaxed, relaxed.length - 1, -1), tolerance, segments, true, arcTolerance);
+  }
+  return { start: points[corners[0]], segments, closed };
+}
+
+export function fittedPathData(path: FittedPath): string {
+  const f = (p: number[]) => `${p[0].toFixed(2)} ${p[1].toFixed(2)}`;
+  let d = `M ${f(path.start)}`;
+  let from = path.start;
+  for (const s of path.segments) {
+    if (s.sweep !== undefined) {
+      const r = dist(from, s.to) / 2 / Math.sin(Math.abs(s.sweep) / 2);
+      d += ` A ${r.toFixed(2)} ${r.toFixed(2)} 0 ${Math.abs(s.sweep) > Math.PI ? 1 : 0} ${s.sweep > 0 ? 1 : 0} ${f(s.to)}`;
+    } else {
+      d += s.c1 && s.c2 ? ` C ${f(s.c1)}, ${f(s.c2)}, ${f(s.to)}` : ` L ${f(s.to)}`;
+    }
+    from = s.to;
+  }
+  return path.closed ? `${d} Z` : d;
+}
+
+/**
+ * Samples a fitted path as a polyline, curves every `resolution` document units. Closed paths
+ * do not repeat their start point.
+ */
+export function flattenFitted(path: FittedPath, resolution = 0.5): number[][] {
+  const out: number[][] = [path.start];
+  let from = path.start;
+  for (const s of path.segments) {
+    if (s.c1 && s.c2) {
+      const steps = Math.max(2, Math.ceil((dist(from, s.c1) + dist(s.c1, s.c2) + dist(s.c2, s.to)) / resolution));
+      for (let j = 1; j < steps; j++) out.push(bezierPoint(from, s.c1, s.c2, s.to, j / steps));
+    } else if (s.sweep !== undefined) {
+      const centre = arcCentre(from, s.to, s.sweep);
+      const r = dist(centre, from);
+      const a0 = Math.atan2(from[1] - centre[1], from[0] - centre[0]);
+      const steps = Math.max(2, Math.ceil((r * Math.abs(s.sweep)) / resolution));
+      for (let j = 1; j < steps; j++) {
+        const a = a0 + (s.sweep * j) / steps;
+        out.push([centre[0] + r * Math.cos(a), centre[1] + r * Math.sin(a)]);
+      }
+    }
+    out.push(s.to);
+    from = s.to;
+  }
+  if (path.closed && out.length > 1 && dist(out[0], out[out.length - 1]) < 1e-9) out.pop();
+  return out;
+}
+
+/**
+ * The vertices of a fitted path for formats with native arcs (DXF bulges): arcs stay one
+ * segment and `bulges[i]` belongs to the segment leaving `points[i]`, curves are sampled.
+ * Bulges are for a Y axis pointing up, the document's Y axis is flipped on the way out.
+ */
+export function fittedVertices(path: FittedPath, resolution = 0.5): { points: number[][]; bulges: number[] } {
+  const points: number[][] = [path.start];
+  const bulges: number[] = [0];
+  let from = path.start;
+  for (const s of path.segments) {
+    if (s.sweep !== undefined) {
+      bulges[bulges.length - 1] = -Math.tan(s.sweep / 4);
+    } else if (s.c1 && s.c2) {
+      const sampled = flattenFitted({ start: from, segments: [s], closed: false }, resolution).slice(1, -1);
+      points.push(...sampled);
+      bulges.push(...sampled.map(() => 0));
+    }
+    points.push(s.to);
+    bulges.push(0);
+    from = s.to;
+  }
+  if (path.closed && points.length > 1 && dist(points[0], points[points.length - 1]) < 1e-9) {
+    points.pop();
+    bulges.pop();
+  }
+  return { points, bulges };
+}
+
+/**
+ * The control points of a fitted path as one chain of cubic Beziers: the start, then two
+ * control points and the end of every segment. Lines become straight cubics; arcs are not
+ * supported, so only pass paths without them.
+ */
+export function bezierControlPoints(path: FittedPath): number[][] {
+  const out: number[][] = [path.start];
+  let from = path.start;
+  for (const s of path.segments) {
+    if (s.c1 && s.c2) out.push(s.c1, s.c2, s.to);
+    else out.push(add(from, scale(sub(s.to, from), 1 / 3)), add(from, scale(sub(s.to, from), 2 / 3)), s.to);
+    from = s.to;
+  }
+  return out;
+}
@@ -0,0 +1,157 @@
+import { CutPath } from '../types';
+
+// 2-opt only tries reversing runs of up to this many paths, which keeps a pass linear in the path count
+const TWO_OPT_WINDOW = 60;
+const TWO_OPT_MAX_PASSES = 8;
+
+export interface CutOrderResult {
+  paths: CutPath[]; // Reordered, with parents re-indexed and entry points rotated to the front
+  travelBefore: number; // Estimated travel in raster order, document units
+  travelAfter: number;
+}
+
+const distance = (a: number[], b: number[]) => Math.hypot(b[0] - a[0], b[1] - a[1]);
+
+// Where a path is left after cutting it from the given entry
+const exitPoint = (path: CutPath, entry: number) =>
+  path.closed ? path.points[entry] : path.points[entry === 0 ? path.points.length - 1 : 0];
+
+/**
+ * Entry point of a path that is closest to `from`: any vertex of a closed path, either end
+ * of an open one.
+ */
+function nearestEntry(path: CutPath, from: number[]): { index: number; dist: number } {
+  const pts = path.points;
+  if (!path.closed) {
+    const dStart = distance(from, pts[0]), dEnd = distance(from, pts[pts.length - 1]);
+    return dStart <= dEnd ? { index: 0, dist: dStart } : { index: pts.length - 1, dist: dEnd };
+  }
+  let index = 0, dist = Infinity;
+  for (let i = 0; i < pts.length; i++) {
+    const d = distance(from, pts[i]);
+    if (d < dist) { dist = d; index = i; }
+  }
+  return { index, dist };
+}
+
+function travelOf(paths: CutPath[], order: number[], entries: number[], origin: number[]): number {
+  let pos = origin, total = 0;
+  order.forEach((p, k) => {
+    total += distance(pos, paths[p].points[entries[k]]);
+    pos = exitPoint(paths[p], entries[k]);
+  });
+  return total;
+}
+
+/**
+ * Orders paths for cutting. Everything enclosed by a contour is cut before that contour, so
+ * parts do not drop out and shift while their holes are still being cut. Within that
+ * constraint the order is a nearest-neighbour tour refined with 2-opt, and every closed path
+ * starts at its vertex closest to where the previous cut ended.
+ */
+export function optimizeCutOrder(paths: CutPath[], origin: number[] = [0, 0]): CutOrderResult {
+  const n = paths.length;
+  const travelBefore = travelOf(paths, paths.map((_, i) => i), paths.map(() => 0), origin);
+  if (n === 0) return { paths, travelBefore, travelAfter: 0 };
+
+  // A path becomes available once all paths directly inside it are cut
+  const pendingChildren = new Int32Array(n);
+  paths.forEach(p => { if (p.parent >= 0) pendingChildren[p.parent]++; });
+  const bounds = paths.map(p => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const [x, y] of p.points) {
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+    return { minX, minY, maxX, maxY };
+  });
+  const boundsDistance = (i: number, [x, y]: number[]) => {
+    const b = bounds[i];
+    return Math.hypot(Math.max(b.minX - x, 0, x - b.maxX), Math.max(b.minY - y, 0, y - b.maxY));
+  };
+
+  // Nearest neighbour; the bounding box is a cheap lower bound that skips most exact checks
+  const available = new Set<number>();
+  paths.forEach((_, i) => { if (pendingChildren[i] === 0) available.add(i); });
+  const order: number[] = [];
+  const entries: number[] = [];
+  let pos = origin;
+  while (available.size) {
+    let best = -1, bestEntry = 0, bestDist = Infinity;
+    available.forEach(i => {
+      if (boundsDistance(i, pos) >= bestDist) return;
+      const { index, dist } = nearestEntry(paths[i], pos);
+      if (dist < bestDist) { bestDist = dist; best = i; bestEntry = index; }
+    });
+    available.delete(best);
+    order.push(best);
+    entries.push(bestEntry);
+    pos = exitPoint(paths[best], bestEntry);
+    const parent = paths[best].parent;
+    if (parent >= 0 && --pendingChildren[parent] === 0) available.add(parent);
+  }
+
+  // 2-opt: reversing a run swaps the entry and exit of its open paths
+  const startOf = (k: number) => paths[order[k]].points[entries[k]];
+  const endOf = (k: number) => exitPoint(paths[order[k]], entries[k]);
+  const inRun = new Int32Array(n).fill(-1);
+  const hasDescendantInRun = new Int32Array(n).fill(-1);
+
+  for (let pass = 0, improved = true; improved && pass < TWO_OPT_MAX_PASSES; pass++) {
+    improved = false;
+    for (let i = 0; i < n - 1; i++) {
+      const before = i === 0 ? origin : endOf(i - 1);
+      const stamp = pass * n + i;
+      for (let j = i; j < Math.min(n, i + TWO_OPT_WINDOW); j++) {
+        // A run that holds a contour together with something inside it cannot be reversed
+        const node = order[j];
+        if (hasDescendantInRun[node] === stamp) break;
+        let nested = false;
+        for (let a = paths[node].parent; a >= 0; a = paths[a].parent) {
+          if (inRun[a] === stamp) { nested = true; break; }
+          hasDescendantInRun[a] = stamp;
+        }
+        if (nested) break;
+        inRun[node] = stamp;
+        if (j === i) continue;
+
+        const after = j + 1 < n ? startOf(j + 1) : null;
+        const current = distance(before, startOf(i)) + (after ? distance(endOf(j), after) : 0);
+        const reversed = distance(before, endOf(j)) + (after ? distance(startOf(i), after) : 0);
+        if (reversed < current - 1e-9) {
+          const run = order.slice(i, j + 1).reverse();
+          const runEntries = entries.slice(i, j + 1).reverse().map((e, k) => {
+            const path = paths[run[k]];
+            return path.closed ? e : (e === 0 ? path.points.length - 1 : 0);
+          });
+          order.splice(i, run.length, ...run);
+          entries.splice(i, runEntries.length, ...runEntries);
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+
+  // Closed paths start where the previous cut ended
+  pos = origin;
+  for (let k = 0; k < n; k++) {
+    if (paths[order[k]].closed) entries[k] = nearestEntry(paths[order[k]], pos).index;
+    pos = endOf(k);
+  }
+
+  const newIndex = new Int32Array(n);
+  order.forEach((p, k) => { newIndex[p] = k; });
+  const ordered = order.map((p, k) => {
+    const path = paths[p];
+    const e = entries[k];
+    const points = path.closed
+      ? [...path.points.slice(e), ...path.points.slice(0, e)]
+      : e === 0 ? path.points : path.points.slice().reverse();
+    return { ...path, points, parent: path.parent >= 0 ? newIndex[path.parent] : -1 };
+  });
+
+  return { paths: ordered, travelBefore, travelAfter: travelOf(ordered, ordered.map((_, i) => i), ordered.map(() => 0), origin) };
+}
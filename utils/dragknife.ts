@@ -0,0 +1,104 @@
+// Path tweaks for drag-knife vinyl cutters. All points are in millimetres.
+
+// Arc length on each side of a vertex used to judge how sharp the corner is
+const CORNER_WINDOW_MM = 1;
+// Direction changes below this are cut straight through instead of swivelling the blade
+const SWIVEL_MIN_ANGLE = (10 * Math.PI) / 180;
+const SWIVEL_STEP = (15 * Math.PI) / 180;
+
+const distance = (a: number[], b: number[]) => Math.hypot(b[0] - a[0], b[1] - a[1]);
+
+/**
+ * Turning angle (0 = straight, PI = full reversal) at vertex i of a closed ring, measured
+ * between points about CORNER_WINDOW_MM away so the dense Bezier sampling does not hide corners.
+ */
+function cornerAngle(ring: number[][], i: number): number {
+  const n = ring.length;
+  const reach = (dir: 1 | -1) => {
+    let k = i, travelled = 0;
+    for (let step = 0; step < n - 1 && travelled < CORNER_WINDOW_MM; step++) {
+      const next = (k + dir + n) % n;
+      travelled += distance(ring[k], ring[next]);
+      k = next;
+    }
+    return ring[k];
+  };
+  const a = reach(-1), b = reach(1), p = ring[i];
+  const v1 = [p[0] - a[0], p[1] - a[1]];
+  const v2 = [b[0] - p[0], b[1] - p[1]];
+  const len = Math.hypot(v1[0], v1[1]) * Math.hypot(v2[0], v2[1]);
+  if (len === 0) return 0;
+  return Math.acos(Math.max(-1, Math.min(1, (v1[0] * v2[0] + v1[1] * v2[1]) / len)));
+}
+
+/**
+ * Rotates a closed ring so it starts at its sharpest corner. A cut that starts and ends on a
+ * corner hides the small notch a drag knife leaves where it lowers and lifts.
+ */
+export function startAtSharpestCorner(ring: number[][]): number[][] {
+  if (ring.length < 3) return ring;
+  let best = 0, bestAngle = -1;
+  for (let i = 0; i < ring.length; i++) {
+    const angle = cornerAngle(ring, i);
+    if (angle > bestAngle) { bestAngle = angle; best = i; }
+  }
+  return [...ring.slice(best), ...ring.slice(0, best)];
+}
+
+/**
+ * Closes a ring and keeps cutting along its start for `overcut` mm, so the end of the
+ * cut fully meets the start and the corner separates.
+ */
+export function closeWithOvercut(ring: number[][], overcut: number): number[][] {
+  const out = [...ring, ring[0]];
+  let remaining = overcut;
+  for (let i = 0; i < ring.length && remaining > 0; i++) {
+    const a = ring[i], b = ring[(i + 1) % ring.length];
+    const len = distance(a, b);
+    if (len >= remaining) {
+      const t = remaining / len;
+      out.push([a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]);
+      break;
+    }
+    out.push(b);
+    remaining -= len;
+  }
+  return out;
+}
+
+/**
+ * Drag-knife blade offset compensation. The blade tip trails the tool centre by `offset`,
+ * so every segment is shifted forward along its own direction, and at corners the tool
+ * swings around the corner point so the tip turns on the spot instead of rounding it off.
+ */
+export function compensateBladeOffset(path: number[][], offset: number): number[][] {
+  if (offset <= 0 || path.length < 2) return path;
+
+  const out: number[][] = [];
+  let prevAngle: number | null = null;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const a = path[i], b = path[i + 1];
+    const len = distance(a, b);
+    if (len < 1e-6) continue;
+    const angle = Math.atan2(b[1] - a[1], b[0] - a[0]);
+
+    if (prevAngle !== null) {
+      let turn = angle - prevAngle;
+      while (turn > Math.PI) turn -= 2 * Math.PI;
+      while (turn < -Math.PI) turn += 2 * Math.PI;
+      if (Math.abs(turn) >= SWIVEL_MIN_ANGLE) {
+        const steps = Math.ceil(Math.abs(turn) / SWIVEL_STEP);
+        for (let s = 1; s < steps; s++) {
+          const t = prevAngle + (turn * s) / steps;
+          out.push([a[0] + Math.cos(t) * offset, a[1] + Math.sin(t) * offset]);
+        }
+      }
+    }
+
+    const dx = Math.cos(angle) * offset, dy = Math.sin(angle) * offset;
+    out.push([a[0] + dx, a[1] + dy], [b[0] + dx, b[1] + dy]);
+    prevAngle = angle;
+  }
+  return out;
+}
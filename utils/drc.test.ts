@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { checkManufacturability } from './drc';
+import { maskFromTest } from './mask';
+
+// Two 20 x 20 dark squares joined by a neck 1 pixel wide and 10 long, at 1 pixel per mm
+const w = 60, h = 40;
+const neck = maskFromTest(w, h, idx => {
+  const x = idx % w, y = Math.floor(idx / w);
+  const inSquare = y >= 10 && y < 30 && ((x >= 5 && x < 25) || (x >= 35 && x < 55));
+  return inSquare || (y === 20 && x >= 25 && x < 35);
+});
+
+const check = (minWidthMm: number, stencilMode = false) => checkManufacturability(neck, w, h, w, h, minWidthMm, 1, stencilMode);
+
+describe('checkManufacturability', () => {
+  it('flags a 1 pixel neck as thin material', () => {
+    const violations = check(3);
+    expect(violations).toHaveLength(1);
+    const [v] = violations;
+    expect(v.kind).toBe('material');
+    expect(v.featureWidth).toBeCloseTo(1, 6);
+    // The marker covers the neck, between the squares
+    expect(v.x).toBeGreaterThan(24);
+    expect(v.x).toBeLessThan(36);
+    expect(v.y).toBeCloseTo(20.5, 0);
+    expect(v.height).toBeLessThanOrEqual(3);
+  });
+
+  it('calls the same neck an opening in stencil mode', () => {
+    expect(check(3, true).map(v => v.kind)).toEqual(['opening']);
+  });
+
+  it('is off below half a pixel and passes wide features', () => {
+    expect(check(0)).toEqual([]);
+    expect(check(0.5)).toEqual([]);
+    const block = maskFromTest(w, h, idx => idx % w >= 5 && idx % w < 55 && idx >= 10 * w && idx < 30 * w);
+    expect(checkManufacturability(block, w, h, w, h, 3, 1, false)).toEqual([]);
+  });
+
+  it('reports the neck as removed by a wider kerf', () => {
+    const violations = checkManufacturability(neck, w, h, w, h, 0, 1, false, { width: 3, join: 'round', keep: 'opening' });
+    expect(violations.map(v => v.kind)).toEqual(['kerf']);
+    // Growing the parts closes gaps instead, and this design has none
+    expect(checkManufacturability(neck, w, h, w, h, 0, 1, false, { width: 3, join: 'round', keep: 'part' })).toEqual([]);
+  });
+});
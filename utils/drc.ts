@@ -0,0 +1,160 @@
+import { DrcViolation, KerfSettings, MaskGrid } from '../types';
+
+const INF = 1e20;
+
+/**
+ * Squared Euclidean distance transform of a 1D function (Felzenszwalb & Huttenlocher).
+ * `f` holds 0 at the seed cells and INF elsewhere; results go to `d`.
+ */
+function edt1d(f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array) {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+}
+
+/**
+ * Squared distance from every pixel to the nearest seed pixel, with seeds outside the image
+ * when `seedOutside` is set.
+ */
+export function squaredDistanceTransform(seed: (idx: number) => boolean, w: number, h: number, seedOutside = false): Float64Array {
+  // A one-pixel frame holds the seeds beyond the image edge
+  const W = w + 2, H = h + 2;
+  const grid = new Float64Array(W * H);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const inside = x > 0 && y > 0 && x <= w && y <= h;
+      grid[y * W + x] = (inside ? seed((y - 1) * w + x - 1) : seedOutside) ? 0 : INF;
+    }
+  }
+
+  const n = Math.max(W, H);
+  const f = new Float64Array(n), d = new Float64Array(n), z = new Float64Array(n + 1);
+  const v = new Int32Array(n);
+  for (let x = 0; x < W; x++) {
+    for (let y = 0; y < H; y++) f[y] = grid[y * W + x];
+    edt1d(f, H, d, v, z);
+    for (let y = 0; y < H; y++) grid[y * W + x] = d[y];
+  }
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) f[x] = grid[y * W + x];
+    edt1d(f, W, d, v, z);
+    for (let x = 0; x < W; x++) grid[y * W + x] = d[x];
+  }
+
+  const out = new Float64Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) out[y * w + x] = grid[(y + 1) * W + x + 1];
+  }
+  return out;
+}
+
+/**
+ * Pixels of a region that a disc of radius `r` cannot reach from inside the region
+ * (the region minus its morphological opening). `dist` is the squared distance to the
+ * nearest pixel outside the region.
+ */
+function thinParts(inRegion: (idx: number) => boolean, dist: Float64Array, w: number, h: number, r: number): Uint8Array {
+  // Centres where the whole disc fits inside the region
+  const toCentre = squaredDistanceTransform(idx => inRegion(idx) && dist[idx] > r * r, w, h);
+  const thin = new Uint8Array(w * h);
+  for (let i = 0; i < w * h; i++) {
+    if (inRegion(i) && toCentre[i] > r * r) thin[i] = 1;
+  }
+  return thin;
+}
+
+/**
+ * Design-rule check on the final mask. Finds dark and light features narrower than
+ * `minWidthMm`: a disc of that diameter does not fit through them. In stencil mode the dark
+ * regions are openings and the light ones material (bridges), otherwise the reverse.
+ * Corner tips are also slightly out of reach of the disc, so tiny clusters are ignored.
+ * With `kerf`, features that kerf compensation removes are reported as well: dark parts
+ * thinner than the kerf when they shrink, light gaps thinner than it when they grow.
+ */
+export function checkManufacturability(mask: MaskGrid, w: number, h: number, docWidth: number, docHeight: number, minWidthMm: number, pxPerMm: number, stencilMode: boolean, kerf: KerfSettings | null = null): DrcViolation[] {
+  const r = (minWidthMm * pxPerMm) / 2;
+  const kerfR = kerf ? (kerf.width * pxPerMm) / 2 : 0;
+  if (r < 0.5 && kerfR < 0.5) return [];
+
+  const dark = mask.data;
+
+  // Squared distance to the nearest light pixel (the sheet beyond the edge is light) and to the nearest dark one
+  const toLight = squaredDistanceTransform(idx => !dark[idx], w, h, true);
+  const toDark = squaredDistanceTransform(idx => dark[idx] === 1, w, h);
+
+  const sx = docWidth / w, sy = docHeight / h;
+  const violations: DrcViolation[] = [];
+  const labels = new Uint8Array(w * h);
+  const queue = new Int32Array(w * h);
+
+  const collect = (thin: Uint8Array, dist: Float64Array, kind: DrcViolation['kind'], minPixels: number) => {
+    labels.fill(0);
+    for (let start = 0; start < w * h; start++) {
+      if (!thin[start] || labels[start]) continue;
+      let head = 0, tail = 0, maxDist = 0;
+      let minX = w, minY = h, maxX = 0, maxY = 0;
+      labels[start] = 1;
+      queue[tail++] = start;
+      while (head < tail) {
+        const idx = queue[head++];
+        const x = idx % w, y = (idx - x) / w;
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+        if (dist[idx] > maxDist) maxDist = dist[idx];
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx, ny = y + dy;
+            if (nx < 0 || ny < 0 || nx >= w || ny >= h) continue;
+            const n = ny * w + nx;
+            if (thin[n] && !labels[n]) {
+              labels[n] = 1;
+              queue[tail++] = n;
+            }
+          }
+        }
+      }
+      if (tail < minPixels) continue;
+      violations.push({
+        kind,
+        x: ((minX + maxX + 1) / 2) * sx,
+        y: ((minY + maxY + 1) / 2) * sy,
+        width: (maxX - minX + 1) * sx,
+        height: (maxY - minY + 1) * sy,
+        // The widest point of the thin part, from the distance to its far edge
+        featureWidth: Math.max(1, 2 * Math.sqrt(maxDist) - 1) / pxPerMm
+      });
+    }
+  };
+
+  if (r >= 0.5) {
+    const minPixels = Math.max(3, Math.round(r * r));
+    collect(thinParts(idx => dark[idx] === 1, toLight, w, h, r), toLight, stencilMode ? 'opening' : 'material', minPixels);
+    collect(thinParts(idx => !dark[idx], toDark, w, h, r), toDark, stencilMode ? 'material' : 'opening', minPixels);
+  }
+  if (kerf && kerfR >= 0.5) {
+    // Keeping the openings shrinks the dark regions by half the kerf, keeping the parts grows them
+    const minPixels = Math.max(3, Math.round(kerfR * kerfR));
+    if (kerf.keep === 'opening') collect(thinParts(idx => dark[idx] === 1, toLight, w, h, kerfR), toLight, 'kerf', minPixels);
+    else collect(thinParts(idx => !dark[idx], toDark, w, h, kerfR), toDark, 'kerf', minPixels);
+  }
+  return violations;
+}
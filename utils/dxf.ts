@@ -0,0 +1,208 @@
+import { DxfVersion, LayerStyle, OutputLayer } from '../types';
+
+export type DxfLayer = OutputLayer | 'bridge';
+
+// Entities take their colour from the layer
+const LAYER_NAMES: Record<DxfLayer, string> = { cut: 'CUT', engrave: 'ENGRAVE', score: 'SCORE', bridge: 'BRIDGE' };
+const BRIDGE_COLOR = '#00ff00';
+
+// The basic AutoCAD colours 1-7; 7 shows as black or white depending on the background
+const ACI_COLORS: [number, number[]][] = [
+  [1, [255, 0, 0]], [2, [255, 255, 0]], [3, [0, 255, 0]], [4, [0, 255, 255]], [5, [0, 0, 255]], [6, [255, 0, 255]], [7, [0, 0, 0]], [7, [255, 255, 255]]
+];
+
+const rgbOf = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) || 0);
+
+// Closest basic colour index, for R12 which has no true colour
+function nearestAci(hex: string): number {
+  const [r, g, b] = rgbOf(hex);
+  let best = 7, bestDist = Infinity;
+  for (const [aci, [cr, cg, cb]] of ACI_COLORS) {
+    const d = (r - cr) ** 2 + (g - cg) ** 2 + (b - cb) ** 2;
+    if (d < bestDist) { best = aci; bestDist = d; }
+  }
+  return best;
+}
+
+// Geometry in millimetres with the Y axis pointing up, as written to the file
+export type DxfEntity =
+  | { kind: 'polyline'; layer: DxfLayer; points: number[][]; closed: boolean; bulges?: number[] }
+  | { kind: 'circle'; layer: DxfLayer; cx: number; cy: number; r: number }
+  | { kind: 'ellipse'; layer: DxfLayer; cx: number; cy: number; rx: number; ry: number; rotation: number }
+  // A chain of cubic Beziers: start, then two control points and the end point of every curve
+  | { kind: 'spline'; layer: DxfLayer; controlPoints: number[][] };
+
+type Group = [number, string | number];
+
+const num = (n: number) => n.toFixed(3);
+const write = (groups: Group[]) => groups.map(([code, value]) => `${code}\n${value}\n`).join('');
+const section = (name: string, body: string) => write([[0, 'SECTION'], [2, name]]) + body + write([[0, 'ENDSEC']]);
+
+function header(version: DxfVersion, page: { width: number; height: number }, handseed?: number): string {
+  return section('HEADER', write([
+    [9, '$ACADVER'], [1, version === 'r12' ? 'AC1009' : 'AC1015'],
+    ...(handseed !== undefined ? [[9, '$HANDSEED'], [5, handseed.toString(16).toUpperCase()]] as Group[] : []),
+    [9, '$INSUNITS'], [70, 4],
+    [9, '$MEASUREMENT'], [70, 1],
+    [9, '$EXTMIN'], [10, '0.0'], [20, '0.0'],
+    [9, '$EXTMAX'], [10, num(page.width)], [20, num(page.height)]
+  ]));
+}
+
+const LAYER_ORDER: DxfLayer[] = ['cut', 'engrave', 'score', 'bridge'];
+
+/**
+ * R12 (AC1009): POLYLINE/VERTEX with bulges and CIRCLE, no handles. Ellipses and splines are
+ * not part of R12 and have to be flattened by the caller.
+ */
+function buildR12(entities: DxfEntity[], page: { width: number; height: number }, colors: Record<DxfLayer, string>): string {
+  const tables = write([
+    [0, 'TABLE'], [2, 'LTYPE'], [70, 1],
+    [0, 'LTYPE'], [2, 'CONTINUOUS'], [70, 0], [3, 'Solid line'], [72, 65], [73, 0], [40, '0.0'],
+    [0, 'ENDTAB'],
+    [0, 'TABLE'], [2, 'LAYER'], [70, LAYER_ORDER.length + 1],
+    [0, 'LAYER'], [2, '0'], [70, 0], [62, 7], [6, 'CONTINUOUS'],
+    ...LAYER_ORDER.flatMap((layer): Group[] => [
+      [0, 'LAYER'], [2, LAYER_NAMES[layer]], [70, 0], [62, nearestAci(colors[layer])], [6, 'CONTINUOUS']
+    ]),
+    [0, 'ENDTAB']
+  ]);
+
+  let body = '';
+  for (const e of entities) {
+    const layer = LAYER_NAMES[e.layer];
+    if (e.kind === 'circle') {
+      body += write([[0, 'CIRCLE'], [8, layer], [10, num(e.cx)], [20, num(e.cy)], [30, '0.0'], [40, num(e.r)]]);
+    } else if (e.kind === 'polyline') {
+      body += write([[0, 'POLYLINE'], [8, layer], [66, 1], [70, e.closed ? 1 : 0]]);
+      e.points.forEach(([x, y], i) => {
+        const bulge = e.bulges?.[i] ?? 0;
+        body += write([[0, 'VERTEX'], [8, layer], [10, num(x)], [20, num(y)], [30, '0.0'], ...(bulge !== 0 ? [[42, bulge.toFixed(6)]] as Group[] : [])]);
+      });
+      body += write([[0, 'SEQEND'], [8, layer]]);
+    }
+  }
+  return header('r12', page) + section('TABLES', tables) + section('ENTITIES', body) + write([[0, 'EOF']]);
+}
+
+/**
+ * R2000 (AC1015): LWPOLYLINE, CIRCLE, ELLIPSE and SPLINE, with the handles, owners and
+ * symbol tables that AutoCAD expects from this version on.
+ */
+function buildR2000(entities: DxfEntity[], page: { width: number; height: number }, colors: Record<DxfLayer, string>): string {
+  let nextHandle = 1;
+  const handle = () => (nextHandle++).toString(16).toUpperCase();
+
+  const table = (name: string, records: (owner: string) => Group[][], extra: Group[] = []) => {
+    const own = handle();
+    const list = records(own);
+    return write([[0, 'TABLE'], [2, name], [5, own], [330, 0], [100, 'AcDbSymbolTable'], [70, list.length], ...extra])
+      + list.map(groups => write(groups)).join('')
+      + write([[0, 'ENDTAB']]);
+  };
+  const record = (type: string, owner: string, subclass: string, groups: Group[]): Group[] => [
+    [0, type], [5, handle()], [330, owner], [100, 'AcDbSymbolTableRecord'], [100, subclass], ...groups
+  ];
+
+  const blockRecords: Record<string, string> = {};
+  const tables = [
+    table('VPORT', () => []),
+    table('LTYPE', owner => [
+      ['ByBlock', ''], ['ByLayer', ''], ['Continuous', 'Solid line']
+    ].map(([name, description]) => record('LTYPE', owner, 'AcDbLinetypeTableRecord', [
+      [2, name], [70, 0], [3, description], [72, 65], [73, 0], [40, '0.0']
+    ]))),
+    table('LAYER', owner => [
+      record('LAYER', owner, 'AcDbLayerTableRecord', [[2, '0'], [70, 0], [62, 7], [6, 'Continuous']]),
+      ...LAYER_ORDER.map(layer => {
+        const [r, g, b] = rgbOf(colors[layer]);
+        return record('LAYER', owner, 'AcDbLayerTableRecord', [
+          [2, LAYER_NAMES[layer]], [70, 0], [62, nearestAci(colors[layer])], [420, r * 65536 + g * 256 + b], [6, 'Continuous']
+        ]);
+      })
+    ]),
+    table('STYLE', owner => [record('STYLE', owner, 'AcDbTextStyleTableRecord', [
+      [2, 'Standard'], [70, 0], [40, '0.0'], [41, '1.0'], [50, '0.0'], [71, 0], [42, '2.5'], [3, 'txt'], [4, '']
+    ])]),
+    table('VIEW', () => []),
+    table('UCS', () => []),
+    table('APPID', owner => [record('APPID', owner, 'AcDbRegAppTableRecord', [[2, 'ACAD'], [70, 0]])]),
+    table('DIMSTYLE', () => [], [[100, 'AcDbDimStyleTable']]),
+    table('BLOCK_RECORD', owner => ['*Model_Space', '*Paper_Space'].map(name => {
+      const groups = record('BLOCK_RECORD', owner, 'AcDbBlockTableRecord', [[2, name]]);
+      blockRecords[name] = groups[1][1] as string;
+      return groups;
+    }))
+  ].join('');
+
+  const blocks = ['*Model_Space', '*Paper_Space'].map(name => write([
+    [0, 'BLOCK'], [5, handle()], [330, blockRecords[name]], [100, 'AcDbEntity'], ...(name === '*Paper_Space' ? [[67, 1]] as Group[] : []),
+    [8, '0'], [100, 'AcDbBlockBegin'], [2, name], [70, 0], [10, '0.0'], [20, '0.0'], [30, '0.0'], [3, name], [1, ''],
+    [0, 'ENDBLK'], [5, handle()], [330, blockRecords[name]], [100, 'AcDbEntity'], ...(name === '*Paper_Space' ? [[67, 1]] as Group[] : []),
+    [8, '0'], [100, 'AcDbBlockEnd']
+  ])).join('');
+
+  const owner = blockRecords['*Model_Space'];
+  const body = entities.map(e => {
+    const common: Group[] = [[5, handle()], [330, owner], [100, 'AcDbEntity'], [8, LAYER_NAMES[e.layer]]];
+    switch (e.kind) {
+      case 'circle':
+        return write([[0, 'CIRCLE'], ...common, [100, 'AcDbCircle'], [10, num(e.cx)], [20, num(e.cy)], [30, '0.0'], [40, num(e.r)]]);
+      case 'ellipse':
+        return write([
+          [0, 'ELLIPSE'], ...common, [100, 'AcDbEllipse'],
+          [10, num(e.cx)], [20, num(e.cy)], [30, '0.0'],
+          // End of the major axis relative to the centre, and the minor axis as a ratio of it
+          [11, num(e.rx * Math.cos(e.rotation))], [21, num(e.rx * Math.sin(e.rotation))], [31, '0.0'],
+          [210, '0.0'], [220, '0.0'], [230, '1.0'],
+          [40, (e.ry / e.rx).toFixed(6)], [41, '0.0'], [42, (2 * Math.PI).toFixed(6)]
+        ]);
+      case 'spline': {
+        // Clamped cubic B-spline with every Bezier joint as a triple knot, so it is the same curve
+        const curves = (e.controlPoints.length - 1) / 3;
+        const knots = [0, 0, 0, 0];
+        for (let k = 1; k < curves; k++) knots.push(k, k, k);
+        knots.push(curves, curves, curves, curves);
+        return write([
+          [0, 'SPLINE'], ...common, [100, 'AcDbSpline'],
+          [210, '0.0'], [220, '0.0'], [230, '1.0'],
+          [70, 8], [71, 3], [72, knots.length], [73, e.controlPoints.length], [74, 0],
+          [42, '0.0000001'], [43, '0.0000001'],
+          ...knots.map((k): Group => [40, k]),
+          ...e.controlPoints.flatMap(([x, y]): Group[] => [[10, num(x)], [20, num(y)], [30, '0.0']])
+        ]);
+      }
+      case 'polyline':
+        return write([
+          [0, 'LWPOLYLINE'], ...common, [100, 'AcDbPolyline'], [90, e.points.length], [70, e.closed ? 1 : 0],
+          ...e.points.flatMap(([x, y], i): Group[] => {
+            const bulge = e.bulges?.[i] ?? 0;
+            return [[10, num(x)], [20, num(y)], ...(bulge !== 0 ? [[42, bulge.toFixed(6)]] as Group[] : [])];
+          })
+        ]);
+    }
+  }).join('');
+
+  const root = handle(), groups = handle();
+  const objects = write([
+    [0, 'DICTIONARY'], [5, root], [330, 0], [100, 'AcDbDictionary'], [281, 1], [3, 'ACAD_GROUP'], [350, groups],
+    [0, 'DICTIONARY'], [5, groups], [330, root], [100, 'AcDbDictionary'], [281, 1]
+  ]);
+
+  return header('r2000', page, nextHandle)
+    + section('TABLES', tables)
+    + section('BLOCKS', blocks)
+    + section('ENTITIES', body)
+    + section('OBJECTS', objects)
+    + write([[0, 'EOF']]);
+}
+
+/**
+ * A complete DXF file in millimetres for the given page, with one layer per output layer in
+ * its colour (the nearest basic colour in R12) and a green bridge layer. R12 files only get
+ * polylines and circles; convert other entities before passing them in.
+ */
+export function buildDxf(version: DxfVersion, entities: DxfEntity[], page: { width: number; height: number }, styles: Record<OutputLayer, LayerStyle>): string {
+  const colors = { cut: styles.cut.color, engrave: styles.engrave.color, score: styles.score.color, bridge: BRIDGE_COLOR };
+  return version === 'r12' ? buildR12(entities, page, colors) : buildR2000(entities, page, colors);
+}
@@ -1,7 +1,19 @@
 
-import { getA3Dimensions } from '../constants';
-import { MaskGrid, AppSettings } from '../types';
-import { extractAllContours, buildBezierPath, smoothContour, simplifyPolyline, getSmoothedContourPoints } from './processing';
+import { getPageDimensions, getPageSizeMm, PT_PER_MM } from '../constants';
+import { MaskGrid, AppSettings, BridgeSegment, CurveFitSettings, CutPath, KerfSettings, OutputLayer, TracedShape, PackedMask } from '../types';
+import { ExportFormat } from './pipeline';
+import { traceCutPaths, groupCompoundShapes, buildBezierPath, smoothContour, simplifyPolyline, getSmoothedContourPoints, getBezierCurves } from './processing';
+import { startAtSharpestCorner, closeWithOvercut, compensateBladeOffset } from './dragknife';
+import { optimizeCutOrder } from './cutorder';
+import { compensateKerf, kerfOffset, offsetContour, signedArea } from './offset';
+import { bridgeRectangle, cutVectorBridges, rebuildCutPaths } from './vectorbridges';
+import { bezierControlPoints, fittedVertices } from './curvefit';
+import { detectPrimitives, offsetPrimitive, samplePrimitive, primitivePathData, primitiveElement } from './primitives';
+import { buildDxf, DxfEntity } from './dxf';
+import { registrationMarks } from './registration';
+
+// Trims page dimensions to a readable number of decimals
+const fmt = (n: number) => String(Number(n.toFixed(3)));
 
 export function simplifyPoints(points: number[][], maxPoints = 8000): number[][] {
   if (!points || points.length === 0) return [];
@@ -14,99 +26,650 @@ export function simplifyPoints(points: number[][], maxPoints = 8000): number[][]
   return out;
 }
 
-export function buildSvgFromMask(mask: MaskGrid, settings: AppSettings): string {
+/**
+ * Builds the path data of one compound shape: the outer ring followed by its holes.
+ * Open shapes (centre lines) are left without a closing Z.
+ */
+export function buildCompoundPath(rings: number[][][], maxPoints: number, vectorSmoothing: number, fit: CurveFitSettings, closed = true): string {
+  return rings
+    .map(ring => buildBezierPath(ring, maxPoints, vectorSmoothing, closed, fit))
+    .filter(d => d)
+    .join(' ');
+}
+
+/**
+ * Straight-segment path data for an already flattened polyline.
+ */
+export function buildPolylinePath(points: number[][], closed = true): string {
+  if (points.length < (closed ? 3 : 2)) return '';
+  const d = points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'} ${x.toFixed(2)} ${y.toFixed(2)}`).join(' ');
+  return closed ? `${d} Z` : d;
+}
+
+/**
+ * One traced path flattened along its Bezier curves (or its circle or ellipse).
+ */
+export function flattenPath(path: CutPath, vectorSmoothing: number, fit: CurveFitSettings): number[][] {
+  return path.primitive
+    ? samplePrimitive(path.primitive, path.points)
+    : getSmoothedContourPoints(path.points, 8000, vectorSmoothing, path.closed, fit);
+}
+
+/**
+ * With kerf compensation on, closed contours are replaced by their flattened offset outline,
+ * since an offset Bezier curve is no longer a Bezier curve. Circles stay circles with the
+ * offset radius; ellipses are flattened like the rest. Centre lines are left untouched.
+ * Parts thinner than the kerf vanish or split, and gaps narrower than it close; the hole
+ * flags and parents are then rebuilt around the rings that are left.
+ */
+export function applyKerf(paths: CutPath[], vectorSmoothing: number, fit: CurveFitSettings, kerf: KerfSettings): CutPath[] {
+  if (kerf.width <= 0) return paths;
+  const pieces = paths.map((path): CutPath[] => {
+    if (!path.closed) return [path];
+    const circle = path.primitive && offsetPrimitive(path.primitive, kerfOffset(path.hole, kerf));
+    if (circle) return [{ ...path, primitive: circle, points: samplePrimitive(circle, path.points) }];
+    const points = flattenPath(path, vectorSmoothing, fit);
+    if (points.length < 3) return [{ ...path, primitive: undefined, points }];
+    const outward = signedArea(points) > 0 !== path.hole;
+    // A ring running against its contour is a hole closed off inside it, or the other way round
+    return compensateKerf(points, path.hole, kerf).map(ring => ({ ...path, primitive: undefined, points: ring, hole: signedArea(ring) > 0 !== outward }));
+  });
+  if (pieces.every(list => list.length === 1)) return pieces.map(list => list[0]);
+
+  const kept = pieces.map((list, i) => list.length === 1 ? list[0] : paths[i]);
+  const rings = pieces.flatMap((list, i) => list
+    .filter(path => path.closed && path.points.length >= 3)
+    .map(path => ({
+      points: signedArea(path.points) > 0 === !path.hole ? path.points : path.points.slice().reverse(),
+      orig: list.length === 1 ? i : -1
+    })));
+  return rebuildCutPaths(kept, rings);
+}
+
+/**
+ * Cuts bridges out of the contours returned by applyKerf as exact rectangles, so their sides
+ * come out straight and at the exact width instead of traced from the mask. Closed contours
+ * are flattened first. With kerf compensation the rectangles move their sides by half the
+ * kerf as well, and they reach 1.5 mask pixels past the bridge ends to clear the traced edge.
+ */
+export function applyVectorBridges(paths: CutPath[], vectorSmoothing: number, fit: CurveFitSettings, kerf: KerfSettings, bridges: BridgeSegment[], pixelSize: number): CutPath[] {
+  if (!bridges.length) return paths;
+  const flat = kerf.width > 0 ? paths : paths.map(path => path.closed ? { ...path, points: flattenPath(path, vectorSmoothing, fit) } : path);
+  const halfKerf = kerf.width > 0 ? (kerf.width / 2) * PT_PER_MM * (kerf.keep === 'part' ? -1 : 1) : 0;
+  const rects = bridges
+    .map(bridge => bridgeRectangle(bridge, pixelSize * 1.5, halfKerf))
+    .filter((rect): rect is number[][] => rect !== null);
+  return cutVectorBridges(flat, rects);
+}
+
+/**
+ * Path data of one shape for the SVG and the preview: Bezier curves, or straight polylines
+ * once applyKerf or applyVectorBridges has flattened the closed contours. Circles and
+ * ellipses are drawn as arcs either way.
+ */
+export function buildShapePath(shape: TracedShape, maxPoints: number, vectorSmoothing: number, fit: CurveFitSettings, flattened: boolean): string {
+  if (!shape.primitives && !(flattened && shape.closed)) {
+    return buildCompoundPath(shape.rings, maxPoints, vectorSmoothing, fit, shape.closed);
+  }
+  return shape.rings
+    .map((ring, i) => {
+      const primitive = shape.primitives?.[i];
+      if (primitive) return primitivePathData(primitive);
+      return flattened ? buildPolylinePath(ring) : buildBezierPath(ring, maxPoints, vectorSmoothing, shape.closed, fit);
+    })
+    .filter(d => d)
+    .join(' ');
+}
+
+/**
+ * Lines around the closed contours at `distanceMm` from them (outside the dark regions when
+ * positive), flattened, for scoring. Contours that vanish at that distance are left out.
+ */
+export function offsetOutlines(paths: CutPath[], flattened: boolean, vectorSmoothing: number, fit: CurveFitSettings, distanceMm: number): number[][][] {
+  if (distanceMm === 0) return [];
+  return paths.flatMap(path => {
+    if (!path.closed) return [];
+    const points = flattened ? path.points : flattenPath(path, vectorSmoothing, fit);
+    return points.length >= 3 ? offsetContour(points, path.hole, distanceMm * PT_PER_MM) : [];
+  });
+}
+
+/**
+ * Traced paths as they are written to the file: with circles and ellipses recognized when
+ * enabled, kerf compensated, with vector bridges cut out when enabled, and optimized for
+ * cutting from the bottom-left corner of the sheet or left in raster order. The registration
+ * marks of a posterized design come last. `flattened` tells whether the closed contours are
+ * polylines already.
+ */
+export function traceExportPaths(mask: MaskGrid, settings: AppSettings, bridges: BridgeSegment[], edges?: Uint8Array): { paths: CutPath[]; flattened: boolean } {
+  const { width: docW, height: docH } = getPageDimensions(settings);
+  const w = mask.width;
+  // Enforce minimum smoothing of 0.5 to match SVG/Preview behavior
+  const vectorSmoothing = Math.max(settings.vectorSmoothing ?? 0, 0.5);
+  const cutBridges = settings.vectorBridges ? bridges : [];
+  let paths = detectPrimitives(traceCutPaths(mask, w, mask.height, docW, docH, settings.traceMode, edges), settings.curveFit);
+  const kerfed = applyKerf(paths, vectorSmoothing, settings.curveFit, settings.kerf);
+  paths = applyVectorBridges(kerfed, vectorSmoothing, settings.curveFit, settings.kerf, cutBridges, docW / w);
+  if (settings.optimizeCutOrder) paths = optimizeCutOrder(paths, [0, docH]).paths;
+  if (settings.posterize.enabled && settings.posterize.registrationMarks) paths = [...paths, ...registrationMarks(docW, docH)];
+  return { paths, flattened: settings.kerf.width > 0 || cutBridges.length > 0 };
+}
+
+/**
+ * All traced rings as flattened polylines in document units, following the same Bezier
+ * curves as the SVG and the preview. Outer boundaries and holes become separate closed
+ * paths, centre lines open ones.
+ */
+export function collectFlattenedPaths(mask: MaskGrid, settings: AppSettings, bridges: BridgeSegment[], edges?: Uint8Array): { points: number[][]; closed: boolean }[] {
+  const vectorSmoothing = Math.max(settings.vectorSmoothing ?? 0, 0.5);
+  const { paths, flattened } = traceExportPaths(mask, settings, bridges, edges);
+  return paths
+    .map(path => ({
+      points: flattened && path.closed ? path.points : flattenPath(path, vectorSmoothing, settings.curveFit),
+      closed: path.closed
+    }))
+    .filter(path => path.points.length >= 2);
+}
+
+// Raster engraving first and cutting last, so parts do not drop out before they are done
+const SVG_LAYER_ORDER: OutputLayer[] = ['engrave', 'score', 'cut'];
+
+/**
+ * SVG of the design: stroked lines per output layer for cutting (see buildLayeredSvg), or
+ * with settings.svg.mode 'filled' the dark regions as filled shapes for printing.
+ */
+export function buildSvgFromMask(mask: MaskGrid, settings: AppSettings, bridges: BridgeSegment[] = [], edges?: Uint8Array): string {
   if (!mask) return '';
-  const { width: docW, height: docH } = getA3Dimensions(settings.orientation);
-  const internalH = mask.length;
-  const internalW = mask[0].length;
+  const { width: docW, height: docH } = getPageDimensions(settings);
+  const { width: pageWmm, height: pageHmm } = getPageSizeMm(settings);
   
-  let svg = `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" width="${docW}" height="${docH}" viewBox="0 0 ${docW} ${docH}" shape-rendering="geometricPrecision">\n`;
+  // Physical size in mm on the root; the viewBox keeps the document units (points) of the preview
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(pageWmm)}mm" height="${fmt(pageHmm)}mm" viewBox="0 0 ${fmt(docW)} ${fmt(docH)}" shape-rendering="geometricPrecision">\n`;
 
-  svg += '  <g fill="none" stroke="#ff0000" stroke-width="0.8" stroke-linejoin="round" stroke-linecap="round">\n';
+  const body = settings.svg.mode === 'filled' ? buildFilledSvg(mask, settings, bridges, edges) : buildLayeredSvg(mask, settings, bridges, edges);
+  return svg + body + '</svg>\n';
+}
 
-  const contours = extractAllContours(mask, internalW, internalH, docW, docH);
+/**
+ * The dark regions as filled even-odd compound shapes: every outer boundary with its holes,
+ * islands inside a hole as shapes of their own. Kerf compensation is for cutting and is left
+ * out; vector bridges are still cut out. Centre lines are stroked in the fill colour.
+ */
+function buildFilledSvg(mask: MaskGrid, settings: AppSettings, bridges: BridgeSegment[], edges?: Uint8Array): string {
+  const { width: docW, height: docH } = getPageDimensions(settings);
+  const { fillColor, background } = settings.svg;
   const effectiveSmoothing = Math.max(settings.vectorSmoothing, 0.5);
+  const { paths, flattened } = traceExportPaths(mask, { ...settings, kerf: { ...settings.kerf, width: 0 } }, bridges, edges);
 
-  for (const contour of contours) {
-    const path = buildBezierPath(contour, 8000, effectiveSmoothing);
-    if (path) {
-      svg += `    <path d="${path}" />\n`;
+  let svg = background ? `  <rect id="background" x="0" y="0" width="${fmt(docW)}" height="${fmt(docH)}" fill="${background}" />\n` : '';
+  svg += `  <g id="fill" fill="${fillColor}" fill-rule="evenodd" stroke="none">\n`;
+  for (const shape of groupCompoundShapes(paths)) {
+    const primitive = shape.rings.length === 1 ? shape.primitives?.[0] : undefined;
+    if (primitive) {
+      svg += `    ${primitiveElement(primitive)} />\n`;
+      continue;
+    }
+    const path = buildShapePath(shape, 8000, effectiveSmoothing, settings.curveFit, flattened);
+    if (!path) continue;
+    svg += shape.closed
+      ? `    <path d="${path}" />\n`
+      : `    <path fill="none" stroke="${fillColor}" stroke-width="${fmt(settings.layers.styles[settings.layers.outlines].strokeWidth * PT_PER_MM)}" stroke-linecap="round" stroke-linejoin="round" d="${path}" />\n`;
+  }
+  return svg + '  </g>\n';
+}
+
+/**
+ * One `<g id>` group per output layer in its stroke colour and width. Outlines, filled regions
+ * and offset lines go to the layers chosen in settings.layers; fills carry their own fill
+ * colour so they can share a group with strokes.
+ */
+function buildLayeredSvg(mask: MaskGrid, settings: AppSettings, bridges: BridgeSegment[], edges?: Uint8Array): string {
+  const { layers } = settings;
+  let svg = '';
+  const effectiveSmoothing = Math.max(settings.vectorSmoothing, 0.5);
+  const { paths, flattened } = traceExportPaths(mask, settings, bridges, edges);
+  const shapes = groupCompoundShapes(paths);
+  const elements: Record<OutputLayer, string[]> = { cut: [], engrave: [], score: [] };
+
+  // Each outer boundary and its holes form one even-odd path, so counters stay open when filled
+  for (const shape of shapes) {
+    // A lone circle or ellipse is written as the element itself
+    const primitive = shape.rings.length === 1 ? shape.primitives?.[0] : undefined;
+    const path = primitive ? '' : buildShapePath(shape, 8000, effectiveSmoothing, settings.curveFit, flattened);
+    if (!primitive && !path) continue;
+    if (layers.fills && shape.closed) {
+      const fill = `fill="${layers.styles[layers.fills].color}" stroke="none"`;
+      elements[layers.fills].push(primitive ? `${primitiveElement(primitive)} ${fill} />` : `<path fill-rule="evenodd" ${fill} d="${path}" />`);
+    }
+    elements[layers.outlines].push(
+      primitive ? `${primitiveElement(primitive)} />` : shape.closed ? `<path fill-rule="evenodd" d="${path}" />` : `<path d="${path}" />`
+    );
+  }
+  if (layers.offsets) {
+    for (const ring of offsetOutlines(paths, flattened, effectiveSmoothing, settings.curveFit, layers.offsetDistance)) {
+      elements[layers.offsets].push(`<path d="${buildPolylinePath(ring)}" />`);
     }
   }
 
-  svg += '  </g>\n</svg>\n';
+  for (const layer of SVG_LAYER_ORDER) {
+    if (!elements[layer].length) continue;
+    const { color, strokeWidth } = layers.styles[layer];
+    svg += `  <g id="${layer}" fill="none" stroke="${color}" stroke-width="${fmt(strokeWidth * PT_PER_MM)}" stroke-linejoin="round" stroke-linecap="round">\n`;
+    svg += elements[layer].map(e => `    ${e}\n`).join('');
+    svg += '  </g>\n';
+  }
   return svg;
 }
 
-export function buildDxfFromMask(mask: MaskGrid, settings: AppSettings): string {
+/**
+ * DXF in millimetres, Y up. Outlines and offset lines go on the layers chosen in
+ * settings.layers, vector bridges (and pixel bridges on request) on a layer of their own;
+ * filled regions have no place in a DXF and are left out. Circles become CIRCLE entities and
+ * fitted arcs bulges; R2000 adds ELLIPSE and, when enabled, SPLINE for the Bezier curves.
+ * Everything else is flattened along the same curves as the SVG.
+ */
+export function buildDxfFromMask(mask: MaskGrid, settings: AppSettings, bridges: BridgeSegment[] = [], edges?: Uint8Array): string {
   if (!mask) return '';
-  const { width: docW, height: docH } = getA3Dimensions(settings.orientation);
-  const internalH = mask.length;
-  const internalW = mask[0].length;
-  // Enforce minimum smoothing of 0.5 to match SVG/Preview behavior
+  const { height: docH } = getPageDimensions(settings);
+  const { curveFit } = settings;
+  const { version, splines } = settings.dxf;
+  const r2000 = version === 'r2000';
   const vectorSmoothing = Math.max(settings.vectorSmoothing ?? 0, 0.5);
+  const toMm = ([x, y]: number[]) => [x / PT_PER_MM, (docH - y) / PT_PER_MM];
+
+  const { paths, flattened } = traceExportPaths(mask, settings, bridges, edges);
+  const entities: DxfEntity[] = [];
+  for (const path of paths) {
+    const layer = settings.layers.outlines;
+    const primitive = path.primitive;
+    if (primitive?.kind === 'circle' || (primitive && r2000)) {
+      const [cx, cy] = toMm([primitive.cx, primitive.cy]);
+      entities.push(primitive.kind === 'circle'
+        ? { kind: 'circle', layer, cx, cy, r: primitive.r / PT_PER_MM }
+        : { kind: 'ellipse', layer, cx, cy, rx: primitive.rx / PT_PER_MM, ry: primitive.ry / PT_PER_MM, rotation: -primitive.rotation });
+      continue;
+    }
+
+    // The curves themselves are only needed for splines and arcs
+    const curved = !primitive && !(flattened && path.closed) && ((r2000 && splines) || (curveFit.mode === 'corners' && curveFit.primitives));
+    const curves = curved ? getBezierCurves(path.points, 8000, vectorSmoothing, path.closed, curveFit) : null;
+    const arcs = curves?.segments.some(s => s.sweep !== undefined);
+    if (curves && r2000 && splines && !arcs && curves.segments.some(s => s.c1)) {
+      entities.push({ kind: 'spline', layer, controlPoints: bezierControlPoints(curves).map(toMm) });
+    } else if (curves && arcs) {
+      const { points, bulges } = fittedVertices(curves);
+      entities.push({ kind: 'polyline', layer, points: points.map(toMm), closed: path.closed, bulges });
+    } else {
+      const points = flattened && path.closed ? path.points : flattenPath(path, vectorSmoothing, curveFit);
+      if (points.length >= 2) entities.push({ kind: 'polyline', layer, points: points.map(toMm), closed: path.closed });
+    }
+  }
+  if (!entities.length) return '';
+
+  if (settings.layers.offsets) {
+    for (const ring of offsetOutlines(paths, flattened, vectorSmoothing, curveFit, settings.layers.offsetDistance)) {
+      entities.push({ kind: 'polyline', layer: settings.layers.offsets, points: ring.map(toMm), closed: true });
+    }
+  }
+  // Pixel bridges are already part of the cut outline, a rectangle across them would cut the island loose
+  for (const bridge of settings.vectorBridges || settings.dxf.bridgeLayer ? bridges : []) {
+    const rect = bridgeRectangle(bridge, 0);
+    if (rect) entities.push({ kind: 'polyline', layer: 'bridge', points: rect.map(toMm), closed: true });
+  }
+  return buildDxf(version, entities, getPageSizeMm(settings), settings.layers.styles);
+}
+
+/**
+ * Maps document points to machine millimetres for the chosen origin corner. The machine
+ * X axis points right and Y up, unless flipY is set for machines with Y pointing down.
+ */
+function machineTransform(settings: AppSettings) {
+  const { width: pageW, height: pageH } = getPageSizeMm(settings);
+  const { origin, flipY } = settings.gcode;
+  const ox = origin === 'center' ? pageW / 2 : origin.endsWith('right') ? pageW : 0;
+  const oy = origin === 'center' ? pageH / 2 : origin.startsWith('top') ? pageH : 0;
+  return ([x, y]: number[]) => {
+    const mx = x / PT_PER_MM - ox;
+    const my = (pageH - y / PT_PER_MM) - oy;
+    return [mx, flipY ? -my : my];
+  };
+}
 
-  const contours = extractAllContours(mask, internalW, internalH, docW, docH);
+export function buildGcodeFromMask(mask: MaskGrid, settings: AppSettings, bridges: BridgeSegment[] = [], edges?: Uint8Array): string {
+  if (!mask) return '';
+  const contours = collectFlattenedPaths(mask, settings, bridges, edges);
+  if (!contours.length) return '';
+
+  const { toolMode, feedRate, power, penUp, penDown } = settings.gcode;
+  const passes = Math.max(1, Math.round(settings.gcode.passes));
+  const toMachine = machineTransform(settings);
+  const xy = (p: number[]) => `X${p[0].toFixed(3)} Y${p[1].toFixed(3)}`;
+  const commands = (block: string) => block.split(/[;\n]/).map(c => c.trim()).filter(c => c);
+
+  const lines = [
+    `; ${settings.designName.trim() || 'ontwerp'} - ${contours.length} paden, ${passes} doorgang(en)`,
+    'G21 ; millimetres',
+    'G90 ; absolute coordinates',
+    // In GRBL laser mode M4 scales power with speed and keeps the laser off during G0 travel
+    ...(toolMode === 'laser' ? ['M4 S0'] : commands(penUp))
+  ];
+
+  for (const contour of contours) {
+    const pts = contour.points.map(toMachine);
+    if (contour.closed) pts.push(pts[0]);
+    for (let pass = 0; pass < passes; pass++) {
+      lines.push(`G0 ${xy(pts[0])}`);
+      if (toolMode === 'pen') lines.push(...commands(penDown));
+      lines.push(`G1 ${xy(pts[1])} F${Math.round(feedRate)}${toolMode === 'laser' ? ` S${Math.round(power)}` : ''}`);
+      for (let i = 2; i < pts.length; i++) lines.push(`G1 ${xy(pts[i])}`);
+      if (toolMode === 'pen') lines.push(...commands(penUp));
+      else lines.push('S0');
+    }
+  }
+
+  lines.push(toolMode === 'laser' ? 'M5' : '', 'G0 X0 Y0', 'M2');
+  return lines.filter(l => l).join('\n') + '\n';
+}
+
+/**
+ * HPGL/PLT for drag-knife vinyl cutters. Closed contours get overcut, and all paths get
+ * blade-offset compensation; origin bottom-left, Y up.
+ */
+export function buildHpglFromMask(mask: MaskGrid, settings: AppSettings, bridges: BridgeSegment[] = [], edges?: Uint8Array): string {
+  if (!mask) return '';
+  const { height: pageHmm } = getPageSizeMm(settings);
+  const { unitsPerMm, overcut, bladeOffset, startAtCorner } = settings.hpgl;
+
+  const contours = collectFlattenedPaths(mask, settings, bridges, edges);
   if (!contours.length) return '';
 
-  let dxf = `0
-SECTION
-2
-HEADER
-9
-$ACADVER
-1
-AC1009
-0
-ENDSEC
-0
-SECTION
-2
-ENTITIES
-`;
+  const toUnits = ([x, y]: number[]) => `${Math.round(x * unitsPerMm)},${Math.round(y * unitsPerMm)}`;
+  // Drops points that round to the same plotter coordinate as the one before
+  const dedupe = (coords: string[]) => coords.filter((c, i) => i === 0 || c !== coords[i - 1]);
+  const commands = ['IN', 'SP1'];
 
   for (const contour of contours) {
-    // Use the interpolated points from Bezier calculation to match preview
-    const pts = getSmoothedContourPoints(contour, 8000, vectorSmoothing);
-    
-    if (pts.length < 2) continue;
-
-    dxf += `0
-POLYLINE
-8
-0
-62
-1
-66
-1
-70
-1
-`;
-    for (const [x, y] of pts) {
-      const dx = x.toFixed(3);
-      const dy = (docH - y).toFixed(3); 
-      dxf += `0
-VERTEX
-8
-0
-10
-${dx}
-20
-${dy}
-30
-0.0
-`;
+    // Document points to millimetres, Y axis pointing up
+    let path = contour.points.map(([x, y]) => [x / PT_PER_MM, pageHmm - y / PT_PER_MM]);
+    if (contour.closed) {
+      if (startAtCorner) path = startAtSharpestCorner(path);
+      path = closeWithOvercut(path, Math.max(0, overcut));
     }
-    dxf += `0
-SEQEND
-`;
+    path = compensateBladeOffset(path, Math.max(0, bladeOffset));
+    const [start, ...rest] = dedupe(path.map(toUnits));
+    if (rest.length) commands.push(`PU${start}`, `PD${rest.join(',')}`);
   }
 
-  dxf += `0
-ENDSEC
-0
-EOF
-`;
-  return dxf;
+  commands.push('PU0,0', 'SP0');
+  return commands.join(';\n') + ';\n';
+}
+
+export interface ExportScaleCheck {
+  ok: boolean;
+  mmPerUnit: number;
+  message: string;
+}
+
+// Millimetres with the Y axis pointing up, as in the DXF
+export interface ExportExtents { minX: number; minY: number; maxX: number; maxY: number }
+
+/**
+ * Where the exported geometry has to lie: around the dark pixels of the mask, measured on the
+ * pixel grid against the page size so that it does not depend on the unit conversion of the
+ * writers. The margin covers smoothing, whose curves can overshoot a long straight run by a
+ * few percent of its length, kerf and offset lines, so it can reach past the page edge;
+ * bridges drawn on the DXF bridge layer and registration marks widen it further. A wrong
+ * unit conversion still moves the geometry well outside it. Null for an empty mask.
+ */
+export function expectedExportExtents(mask: PackedMask, settings: AppSettings, bridges: BridgeSegment[] = []): ExportExtents | null {
+  const { width: pageW, height: pageH } = getPageSizeMm(settings);
+  const { data, width: w, height: h } = mask;
+  let x0 = w, y0 = h, x1 = -1, y1 = -1;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (data[y * w + x] !== 1) continue;
+      if (x < x0) x0 = x;
+      if (x > x1) x1 = x;
+      if (y < y0) y0 = y;
+      y1 = y;
+    }
+  }
+  if (x1 < 0) return null;
+  const mmPerPx = pageW / w;
+  const smoothing = 2 * mmPerPx + 0.1 * Math.max(x1 + 1 - x0, y1 + 1 - y0) * mmPerPx;
+  const margin = smoothing + settings.kerf.width / 2 + (settings.layers.offsets ? Math.abs(settings.layers.offsetDistance) : 0);
+  const extents = {
+    minX: x0 * mmPerPx - margin,
+    maxX: (x1 + 1) * mmPerPx + margin,
+    minY: pageH - (y1 + 1) * (pageH / h) - margin,
+    maxY: pageH - y0 * (pageH / h) + margin
+  };
+  const grow = (x: number, y: number) => {
+    extents.minX = Math.min(extents.minX, x);
+    extents.maxX = Math.max(extents.maxX, x);
+    extents.minY = Math.min(extents.minY, y);
+    extents.maxY = Math.max(extents.maxY, y);
+  };
+  if (settings.vectorBridges || settings.dxf.bridgeLayer) {
+    const mmPerUnit = pageW / getPageDimensions(settings).width;
+    for (const bridge of bridges) {
+      for (const [x, y] of bridgeRectangle(bridge, 0) ?? []) grow(x * mmPerUnit, pageH - y * mmPerUnit);
+    }
+  }
+  if (settings.posterize.enabled && settings.posterize.registrationMarks) {
+    grow(0, 0);
+    grow(pageW, pageH);
+  }
+  return extents;
+}
+
+// Grows a bounding box around the measured geometry; null until the first point
+function extentsBuilder() {
+  let extents: ExportExtents | null = null;
+  const grow = (x: number, y: number, rx = 0, ry = rx) => {
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+    if (!extents) extents = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    extents.minX = Math.min(extents.minX, x - rx);
+    extents.maxX = Math.max(extents.maxX, x + rx);
+    extents.minY = Math.min(extents.minY, y - ry);
+    extents.maxY = Math.max(extents.maxY, y + ry);
+  };
+  return { grow, result: () => extents };
+}
+
+/**
+ * Extents of the geometry in the ENTITIES section of a DXF: every vertex and control point,
+ * circles and ellipses with their radius. Null when there are no entities.
+ */
+function dxfEntityExtents(content: string): ExportExtents | null {
+  const lines = content.split(/\r?\n/).map(line => line.trim());
+  const start = lines.findIndex((line, i) => line === 'ENTITIES' && lines[i - 1] === '2');
+  if (start < 0) return null;
+  const { grow, result } = extentsBuilder();
+
+  // Circles and ellipses only count once their radius is known, at the end of the entity
+  let kind = '';
+  let x = NaN, y = NaN, r = 0, major = 0, ratio = 1;
+  const endEntity = () => {
+    if (kind === 'CIRCLE' || kind === 'ELLIPSE') grow(x, y, r * Math.max(1, ratio));
+  };
+  for (let i = start + 1; i + 1 < lines.length; i += 2) {
+    const code = Number(lines[i]), value = lines[i + 1];
+    if (code === 0) {
+      endEntity();
+      if (value === 'ENDSEC') break;
+      kind = value;
+      r = 0;
+      ratio = 1;
+    } else if (code === 10) {
+      x = Number(value);
+    } else if (code === 20) {
+      y = Number(value);
+      if (kind !== 'CIRCLE' && kind !== 'ELLIPSE') grow(x, y);
+    } else if (kind === 'CIRCLE' && code === 40) {
+      r = Number(value);
+    } else if (kind === 'ELLIPSE' && code === 11) {
+      major = Number(value);
+    } else if (kind === 'ELLIPSE' && code === 21) {
+      r = Math.hypot(major, Number(value));
+    } else if (kind === 'ELLIPSE' && code === 40) {
+      ratio = Number(value);
+    }
+  }
+  return result();
+}
+
+// Points along an SVG elliptical arc from `from` to `to`, after the endpoint to centre conversion of the SVG spec
+function svgArcPoints(from: number[], rx: number, ry: number, rotationDeg: number, large: boolean, sweep: boolean, to: number[]): number[][] {
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [to];
+  const phi = (rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(phi), sin = Math.sin(phi);
+  const dx = (from[0] - to[0]) / 2, dy = (from[1] - to[1]) / 2;
+  const x1 = cos * dx + sin * dy, y1 = -sin * dx + cos * dy;
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const coef = (large !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, num / den));
+  const cx1 = (coef * rx * y1) / ry, cy1 = (-coef * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from[0] + to[0]) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from[1] + to[1]) / 2;
+  const start = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx);
+  let delta = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx) - start;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  const steps = 32;
+  const points: number[][] = [];
+  for (let k = 1; k <= steps; k++) {
+    const a = start + (delta * k) / steps;
+    points.push([cx + rx * Math.cos(a) * cos - ry * Math.sin(a) * sin, cy + rx * Math.cos(a) * sin + ry * Math.sin(a) * cos]);
+  }
+  return points;
+}
+
+// Coordinates each path command takes; the writers only use absolute commands
+const SVG_COMMAND_ARITY: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, Q: 4, A: 7, Z: 0 };
+
+/**
+ * Extents of the drawn geometry of an SVG in viewBox units (Y down): path vertices, Bezier
+ * control points and arcs, circles and ellipses. The background rectangle is not geometry.
+ * Null when there is none.
+ */
+function svgGeometryExtents(content: string): ExportExtents | null {
+  const { grow, result } = extentsBuilder();
+  const attr = (tag: string, name: string) => Number(tag.match(new RegExp(`\\s${name}="([-\\d.e]+)"`))?.[1]);
+  for (const [tag, element] of content.matchAll(/<(path|circle|ellipse)\b[^>]*>/g)) {
+    if (element === 'circle') {
+      grow(attr(tag, 'cx'), attr(tag, 'cy'), attr(tag, 'r'));
+    } else if (element === 'ellipse') {
+      const rx = attr(tag, 'rx'), ry = attr(tag, 'ry');
+      const rotation = (Number(tag.match(/rotate\(([-\d.e]+)/)?.[1] ?? 0) * Math.PI) / 180;
+      const cos = Math.cos(rotation), sin = Math.sin(rotation);
+      grow(attr(tag, 'cx'), attr(tag, 'cy'), Math.hypot(rx * cos, ry * sin), Math.hypot(rx * sin, ry * cos));
+    } else {
+      const tokens = tag.match(/\sd="([^"]*)"/)?.[1].match(/[A-Za-z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/g) ?? [];
+      let command = 'M';
+      let current = [0, 0];
+      for (let i = 0; i < tokens.length;) {
+        const letter = /[A-Za-z]/.test(tokens[i]);
+        if (letter) command = tokens[i++];
+        const arity = SVG_COMMAND_ARITY[command];
+        if (arity === undefined || (arity === 0 && !letter)) return null;
+        if (arity === 0) continue;
+        const v = tokens.slice(i, i + arity).map(Number);
+        i += arity;
+        if (command === 'H') current = [v[0], current[1]];
+        else if (command === 'V') current = [current[0], v[0]];
+        else if (command === 'A') {
+          const to = [v[5], v[6]];
+          for (const [x, y] of svgArcPoints(current, v[0], v[1], v[2], v[3] === 1, v[4] === 1, to)) grow(x, y);
+          current = to;
+        } else {
+          for (let k = 0; k < arity; k += 2) grow(v[k], v[k + 1]);
+          current = [v[arity - 2], v[arity - 1]];
+        }
+        grow(current[0], current[1]);
+      }
+    }
+  }
+  return result();
+}
+
+/**
+ * Reads the units back out of a generated file and verifies that a 100 mm feature in the
+ * preview is 100 mm in the receiving program. For SVG and DXF the written coordinates
+ * themselves are measured in millimetres: they have to lie around the design (see
+ * expectedExportExtents), or on the page without it, and a wrong unit conversion scales them
+ * away from there.
+ */
+export function checkExportScale(content: string, format: ExportFormat, pageMm: { width: number; height: number }, expected?: ExportExtents | null): ExportScaleCheck {
+  const tolerance = 0.05; // mm
+  const fail = (message: string): ExportScaleCheck => ({ ok: false, mmPerUnit: NaN, message });
+  if (!content.trim()) return fail('Het bestand is leeg, er is niets om te exporteren.');
+
+  let mmPerUnit: number;
+  let extents: ExportExtents | null;
+
+  if (format === 'hpgl') {
+    // HPGL has no units in the file; the plotter units setting decides the scale
+    return /^IN;/.test(content)
+      ? { ok: true, mmPerUnit: NaN, message: 'HPGL in plottereenheden' }
+      : fail('HPGL-bestand begint niet met IN;');
+  } else if (format === 'gcode') {
+    // G-code has no page size; it only has to be in millimetre mode
+    return /^G21\b/m.test(content)
+      ? { ok: true, mmPerUnit: 1, message: 'G-code in millimeters (G21)' }
+      : fail('G-code staat niet in millimetermodus (G21).');
+  } else if (format === 'svg') {
+    const root = content.match(/<svg\b[^>]*>/)?.[0] ?? '';
+    const width = root.match(/\swidth="([\d.]+)mm"/);
+    const height = root.match(/\sheight="([\d.]+)mm"/);
+    const viewBox = root.match(/\sviewBox="[\d.-]+ [\d.-]+ ([\d.]+) ([\d.]+)"/);
+    if (!width || !height) return fail('SVG mist breedte/hoogte in mm.');
+    if (!viewBox) return fail('SVG mist een viewBox.');
+    const widthMm = Number(width[1]), heightMm = Number(height[1]);
+    if (Math.abs(widthMm - pageMm.width) > tolerance || Math.abs(heightMm - pageMm.height) > tolerance) {
+      return fail(`Documentformaat ${widthMm} x ${heightMm} mm wijkt af van de pagina (${pageMm.width} x ${pageMm.height} mm).`);
+    }
+    mmPerUnit = widthMm / Number(viewBox[1]);
+    const mmPerUnitY = heightMm / Number(viewBox[2]);
+    if (Math.abs(mmPerUnit - mmPerUnitY) * 100 * PT_PER_MM > tolerance) {
+      return fail('SVG schaal is niet gelijk in X en Y.');
+    }
+    // The viewBox starts at the top left; millimetres with Y up to compare with the DXF frame
+    const units = svgGeometryExtents(content);
+    extents = units && {
+      minX: units.minX * mmPerUnit,
+      maxX: units.maxX * mmPerUnit,
+      minY: heightMm - units.maxY * mmPerUnitY,
+      maxY: heightMm - units.minY * mmPerUnitY
+    };
+    if (!extents) return fail('SVG bevat geen geometrie.');
+  } else {
+    const header = (name: string, code: number) => {
+      const m = content.match(new RegExp(`\\$${name}\\r?\\n\\s*${code}\\r?\\n\\s*([^\\r\\n]+)`));
+      return m ? Number(m[1]) : NaN;
+    };
+    if (header('INSUNITS', 70) !== 4) return fail('DXF-eenheden ($INSUNITS) zijn niet millimeter.');
+    mmPerUnit = 1;
+    extents = dxfEntityExtents(content);
+    if (!extents) return fail('DXF bevat geen geometrie.');
+  }
+
+  const { minX, minY, maxX, maxY } = extents;
+  const size = `${(maxX - minX).toFixed(2)} x ${(maxY - minY).toFixed(2)} mm`;
+  if (expected) {
+    if (minX < expected.minX || minY < expected.minY || maxX > expected.maxX || maxY > expected.maxY) {
+      return fail(`De geometrie (${size}) ligt niet op de plek van het ontwerp in het voorbeeld.`);
+    }
+  } else if (minX < -tolerance || minY < -tolerance || maxX > pageMm.width + tolerance || maxY > pageMm.height + tolerance) {
+    return fail(`De geometrie (${size}) valt buiten de pagina (${pageMm.width} x ${pageMm.height} mm).`);
+  }
+  return { ok: true, mmPerUnit, message: `Schaal 1:1 (geometrie ${size})` };
 }
@@ -0,0 +1,69 @@
+import { MaskGrid } from '../types';
+import { gaussianBlur } from './threshold';
+
+// Edge field value of the iso-line: foreground pixels lie above it, background pixels below
+const ISO_LEVEL = 127.5;
+// Light smoothing of the greyscale image before it becomes the edge field, in mask pixels
+const FIELD_SIGMA = 0.6;
+
+// Directions right, down, left, up, with Y pointing down
+const DX = [1, 0, -1, 0];
+const DY = [0, 1, 0, -1];
+
+/**
+ * The field whose iso-line marching squares follows: per pixel how far the smoothed
+ * greyscale image lies below its threshold level, 0-255 around ISO_LEVEL. Where bridges,
+ * erasing or bitmap smoothing changed the mask, the field is clamped to the mask, so the
+ * contours always match it. Without a greyscale image (posterization, colour selection) the
+ * field is the mask itself and the contours run halfway between pixel centres.
+ */
+export function buildEdgeField(mask: MaskGrid, w: number, h: number, lum: Float32Array | null, levels: Float32Array | null): Uint8Array {
+  const field = new Uint8Array(w * h);
+  const smoothed = lum && levels ? gaussianBlur(lum, w, h, FIELD_SIGMA) : null;
+  for (let i = 0; i < w * h; i++) {
+    const dark = mask.data[i] === 1;
+    const value = smoothed && levels ? Math.round(ISO_LEVEL + levels[i] - smoothed[i]) : dark ? 255 : 0;
+    field[i] = dark ? Math.max(128, Math.min(255, value)) : Math.min(127, Math.max(0, value));
+  }
+  return field;
+}
+
+/**
+ * Sub-pixel outline of one labelled region by marching squares. The walk follows the cracks
+ * between the region's pixels and their neighbours, keeping the region on the right, and each
+ * crack gives the point where the edge field crosses ISO_LEVEL between the two pixel centres.
+ * It starts above the region's top-left pixel, so it follows the outer boundary. Where only
+ * diagonal pixels touch, `connectDiagonals` keeps them together (8-connected background) or
+ * apart (4-connected foreground), the same as the labelling in extractContourHierarchy.
+ */
+export function traceSubpixelContour(labels: Int32Array, labelId: number, startX: number, startY: number, w: number, h: number, field: Uint8Array, connectDiagonals: boolean, docWidth: number, docHeight: number): number[][] {
+  const inside = (px: number, py: number) => px >= 0 && py >= 0 && px < w && py < h && labels[py * w + px] === labelId;
+  // Beyond the mask everything is background
+  const valueAt = (px: number, py: number) => (px >= 0 && py >= 0 && px < w && py < h ? field[py * w + px] : 0);
+  const sx = docWidth / w, sy = docHeight / h;
+
+  const contour: number[][] = [];
+  let vx = startX, vy = startY, dir = 0;
+  let safety = 4 * (w + 1) * (h + 1);
+  do {
+    // Centres of the pixels on either side of the crack from (vx, vy) in direction `dir`
+    const rx = -DY[dir], ry = DX[dir];
+    const inX = vx + (DX[dir] + rx) / 2, inY = vy + (DY[dir] + ry) / 2;
+    const outX = vx + (DX[dir] - rx) / 2, outY = vy + (DY[dir] - ry) / 2;
+    const vIn = valueAt(Math.floor(inX), Math.floor(inY)), vOut = valueAt(Math.floor(outX), Math.floor(outY));
+    const t = vIn === vOut ? 0.5 : (vIn - ISO_LEVEL) / (vIn - vOut);
+    contour.push([
+      Math.max(0, Math.min(docWidth, (inX + t * (outX - inX)) * sx)),
+      Math.max(0, Math.min(docHeight, (inY + t * (outY - inY)) * sy))
+    ]);
+
+    vx += DX[dir];
+    vy += DY[dir];
+    const aheadRight = inside(Math.floor(vx + (DX[dir] + rx) / 2), Math.floor(vy + (DY[dir] + ry) / 2));
+    const aheadLeft = inside(Math.floor(vx + (DX[dir] - rx) / 2), Math.floor(vy + (DY[dir] - ry) / 2));
+    if (aheadLeft && (aheadRight || connectDiagonals)) dir = (dir + 3) % 4;
+    else if (!aheadRight) dir = (dir + 1) % 4;
+  } while (!(vx === startX && vy === startY && dir === 0) && --safety > 0);
+
+  return contour;
+}
@@ -0,0 +1,77 @@
+import { MaskGrid, MaskRect } from '../types';
+
+/**
+ * An all-light mask of the given size.
+ */
+export function createMask(w: number, h: number): MaskGrid {
+  return { data: new Uint8Array(w * h), width: w, height: h };
+}
+
+/**
+ * A mask with every pixel for which `isDark(index)` holds set, the index being y * w + x.
+ */
+export function maskFromTest(w: number, h: number, isDark: (idx: number) => boolean): MaskGrid {
+  const mask = createMask(w, h);
+  for (let i = 0; i < mask.data.length; i++) if (isDark(i)) mask.data[i] = 1;
+  return mask;
+}
+
+export function cloneMask(mask: MaskGrid): MaskGrid {
+  return { data: mask.data.slice(), width: mask.width, height: mask.height };
+}
+
+/**
+ * Whether the pixel is dark; everything beyond the mask counts as light.
+ */
+export function maskGet(mask: MaskGrid, x: number, y: number): boolean {
+  return x >= 0 && y >= 0 && x < mask.width && y < mask.height && mask.data[y * mask.width + x] === 1;
+}
+
+/**
+ * Sets or clears the pixel; writes beyond the mask are ignored.
+ */
+export function maskSet(mask: MaskGrid, x: number, y: number, dark: boolean) {
+  if (x >= 0 && y >= 0 && x < mask.width && y < mask.height) mask.data[y * mask.width + x] = dark ? 1 : 0;
+}
+
+/**
+ * Bounding rectangle of the pixels that differ between two masks of the same size, or null
+ * when they are equal.
+ */
+export function diffRect(a: Uint8Array, b: Uint8Array, w: number, h: number): MaskRect | null {
+  let rect: MaskRect | null = null;
+  for (let y = 0; y < h; y++) {
+    const row = y * w;
+    for (let x = 0; x < w; x++) {
+      if (a[row + x] === b[row + x]) continue;
+      if (!rect) rect = { x0: x, y0: y, x1: x + 1, y1: y + 1 };
+      else {
+        rect.x0 = Math.min(rect.x0, x);
+        rect.x1 = Math.max(rect.x1, x + 1);
+        rect.y1 = y + 1;
+      }
+    }
+  }
+  return rect;
+}
+
+export function unionRect(a: MaskRect | null, b: MaskRect | null): MaskRect | null {
+  if (!a || !b) return a ?? b;
+  return { x0: Math.min(a.x0, b.x0), y0: Math.min(a.y0, b.y0), x1: Math.max(a.x1, b.x1), y1: Math.max(a.y1, b.y1) };
+}
+
+export function rectsIntersect(a: MaskRect, b: MaskRect): boolean {
+  return a.x0 < b.x1 && b.x0 < a.x1 && a.y0 < b.y1 && b.y0 < a.y1;
+}
+
+/**
+ * Copies the pixels inside `rect` from one mask to another of the same size.
+ */
+export function copyRect(from: MaskGrid, to: MaskGrid, rect: MaskRect) {
+  const w = from.width;
+  const x0 = Math.max(0, rect.x0), x1 = Math.min(w, rect.x1);
+  if (x1 <= x0) return;
+  for (let y = Math.max(0, rect.y0); y < Math.min(from.height, rect.y1); y++) {
+    to.data.set(from.data.subarray(y * w + x0, y * w + x1), y * w + x0);
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { PT_PER_MM } from '../constants';
+import { compensateKerf, offsetContour, removeSelfIntersections, signedArea } from './offset';
+
+const square = [[0, 0], [10, 0], [10, 10], [0, 10]];
+// 100 long and 2 wide
+const bar = [[0, 0], [100, 0], [100, 2], [0, 2]];
+// Two 20 x 20 squares joined by a neck 2 wide
+const dumbbell = [[0, 0], [20, 0], [20, 9], [40, 9], [40, 0], [60, 0], [60, 20], [40, 20], [40, 11], [20, 11], [20, 20], [0, 20]];
+// A 30 x 30 square with a 10 x 10 cavity, reached through a slot 2 wide from the left
+const slotted = [[0, 0], [30, 0], [30, 30], [0, 30], [0, 16], [10, 16], [10, 20], [20, 20], [20, 10], [10, 10], [10, 14], [0, 14]];
+
+const bounds = (ring: number[][]) => {
+  const xs = ring.map(p => p[0]), ys = ring.map(p => p[1]);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+};
+
+describe('offsetContour', () => {
+  it('grows a square with round corners', () => {
+    const rings = offsetContour(square, false, 1);
+    expect(rings).toHaveLength(1);
+    bounds(rings[0]).forEach((v, i) => expect(v).toBeCloseTo([-1, -1, 11, 11][i], 6));
+    // The corner arcs are chords within the tolerance, so a bit short of the quarter circles
+    expect(signedArea(rings[0])).toBeGreaterThan(143);
+    expect(signedArea(rings[0])).toBeLessThan(100 + 40 + Math.PI);
+  });
+
+  it('shrinks a square and lets it vanish past its middle', () => {
+    const rings = offsetContour(square, false, -1);
+    expect(rings).toHaveLength(1);
+    expect(signedArea(rings[0])).toBeCloseTo(64, 6);
+    expect(offsetContour(square, false, -6)).toEqual([]);
+  });
+
+  it('drops a thin bar shrunk by more than half its width', () => {
+    expect(offsetContour(bar, false, -0.5).map(signedArea)).toEqual([expect.closeTo(99, 6)]);
+    expect(offsetContour(bar, false, -1.5)).toEqual([]);
+  });
+
+  it('splits at a neck thinner than twice the offset', () => {
+    const rings = offsetContour(dumbbell, false, -2);
+    expect(rings).toHaveLength(2);
+    for (const ring of rings) expect(signedArea(ring)).toBeCloseTo(256, 0);
+    // Clockwise input keeps its direction
+    expect(offsetContour(dumbbell.slice().reverse(), false, -2).map(signedArea)).toEqual([expect.closeTo(-256, 0), expect.closeTo(-256, 0)]);
+  });
+
+  it('closes a narrow slot and keeps the cavity behind it as a hole', () => {
+    const rings = offsetContour(slotted, false, 2);
+    expect(rings).toHaveLength(2);
+    const [hole, outer] = rings.slice().sort((a, b) => signedArea(a) - signedArea(b));
+    expect(signedArea(hole)).toBeCloseTo(-36, 0);
+    expect(bounds(hole).map(v => Math.round(v))).toEqual([12, 12, 18, 18]);
+    expect(bounds(outer).map(v => Math.round(v))).toEqual([-2, -2, 32, 32]);
+  });
+
+  it('moves a hole the other way', () => {
+    expect(offsetContour(square, true, 1).map(signedArea)).toEqual([expect.closeTo(64, 6)]);
+  });
+});
+
+describe('compensateKerf', () => {
+  const kerf = (width: number, keep: 'opening' | 'part') => ({ width: width / PT_PER_MM, join: 'miter' as const, keep });
+
+  it('shrinks openings and grows parts by half the kerf', () => {
+    expect(compensateKerf(square, false, kerf(2, 'opening')).map(signedArea)).toEqual([expect.closeTo(64, 6)]);
+    expect(compensateKerf(square, false, kerf(2, 'part')).map(signedArea)).toEqual([expect.closeTo(144, 6)]);
+    expect(compensateKerf(square, true, kerf(2, 'part')).map(signedArea)).toEqual([expect.closeTo(64, 6)]);
+  });
+
+  it('removes a bar thinner than the kerf', () => {
+    expect(compensateKerf(bar, false, kerf(3, 'opening'))).toEqual([]);
+    expect(compensateKerf(bar, false, kerf(1, 'opening'))).toHaveLength(1);
+  });
+
+  it('leaves the contour alone without a kerf', () => {
+    expect(compensateKerf(bar, false, kerf(0, 'opening'))).toEqual([bar]);
+  });
+});
+
+describe('removeSelfIntersections', () => {
+  it('keeps a simple ring in its own direction and drops an inverted one', () => {
+    expect(removeSelfIntersections(square, 1)).toEqual([square]);
+    expect(removeSelfIntersections(square, -1)).toEqual([]);
+  });
+
+  it('drops the inverted lobe of a figure eight', () => {
+    const eight = [[0, 0], [10, 10], [10, 0], [0, 10]];
+    const rings = removeSelfIntersections(eight, -1)!;
+    expect(rings).toHaveLength(1);
+    expect(signedArea(rings[0])).toBeCloseTo(-25, 6);
+  });
+});
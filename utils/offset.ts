@@ -0,0 +1,270 @@
+import { JoinStyle, KerfSettings } from '../types';
+import { PT_PER_MM } from '../constants';
+
+// Joins sharper than this get a real round or miter join; gentler ones just meet at the miter point
+const MIN_JOIN_ANGLE = (5 * Math.PI) / 180;
+// Miters longer than this many times the offset are cut off square (bevel)
+const MITER_LIMIT = 2;
+// Deviation of round joins from the true arc
+const KERF_TOLERANCE_MM = 0.01;
+
+// Where two edges of a ring cross; `id` links the same point on both edges
+interface Crossing { id: number; t: number; point: number[] }
+
+// Where the two offset edges around vertex v meet
+const miterPoint = (v: number[], n1: number[], n2: number[], cos: number, delta: number) => [
+  v[0] + ((n1[0] + n2[0]) * delta) / (1 + cos),
+  v[1] + ((n1[1] + n2[1]) * delta) / (1 + cos)
+];
+
+/**
+ * Signed area of a ring; positive when it runs counter-clockwise in a Y-up frame.
+ */
+export function signedArea(ring: number[][]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+}
+
+// Winding number of the ring around p; counter-clockwise rings count positive in a Y-up frame
+function windingNumber(p: number[], ring: number[][]): number {
+  let winding = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i], b = ring[(i + 1) % ring.length];
+    const side = (b[0] - a[0]) * (p[1] - a[1]) - (p[0] - a[0]) * (b[1] - a[1]);
+    if (a[1] <= p[1]) {
+      if (b[1] > p[1] && side > 0) winding++;
+    } else if (b[1] <= p[1] && side < 0) winding--;
+  }
+  return winding;
+}
+
+/**
+ * Offsets a closed ring by `delta`: positive grows the enclosed area, negative shrinks it.
+ * Corners that open up get a round arc (within `tolerance` of the true circle) or a miter.
+ * Where features are thinner than twice the offset the result crosses itself, with loops
+ * running the wrong way; removeSelfIntersections cleans those up.
+ */
+export function offsetRing(ring: number[][], delta: number, join: JoinStyle, tolerance: number): number[][] {
+  const pts = ring.filter((p, i) => {
+    const q = ring[(i + 1) % ring.length];
+    return p[0] !== q[0] || p[1] !== q[1];
+  });
+  const n = pts.length;
+  if (delta === 0 || n < 3) return ring;
+
+  // Outward unit normal of every edge i -> i+1
+  const orientation = Math.sign(signedArea(pts));
+  const normals = pts.map((p, i) => {
+    const q = pts[(i + 1) % n];
+    const len = Math.hypot(q[0] - p[0], q[1] - p[1]);
+    return [(orientation * (q[1] - p[1])) / len, (orientation * (p[0] - q[0])) / len];
+  });
+
+  const r = Math.abs(delta);
+  const arcStep = 2 * Math.acos(Math.max(0, 1 - Math.min(tolerance, r) / r));
+  const out: number[][] = [];
+
+  for (let i = 0; i < n; i++) {
+    const v = pts[i];
+    const n1 = normals[(i - 1 + n) % n], n2 = normals[i];
+    const cos = Math.max(-1, Math.min(1, n1[0] * n2[0] + n1[1] * n2[1]));
+    const angle = Math.acos(cos);
+    const p1 = [v[0] + n1[0] * delta, v[1] + n1[1] * delta];
+    const p2 = [v[0] + n2[0] * delta, v[1] + n2[1] * delta];
+
+    if (angle < MIN_JOIN_ANGLE) {
+      out.push(miterPoint(v, n1, n2, cos, delta));
+      continue;
+    }
+
+    // The offset edges leave a gap at convex corners when growing, and at reflex corners when shrinking
+    const convex = n1[0] * n2[1] - n1[1] * n2[0] > 0 === orientation > 0;
+    if (convex !== delta > 0) {
+      // The offset edges cross at the miter point, which runs away on a near reversal
+      if (1 + cos > 0.1) out.push(miterPoint(v, n1, n2, cos, delta));
+      else out.push(p1, p2);
+      continue;
+    }
+
+    if (join === 'miter') {
+      if (Math.sqrt(2 / (1 + cos)) <= MITER_LIMIT) out.push(miterPoint(v, n1, n2, cos, delta));
+      else out.push(p1, p2);
+      continue;
+    }
+
+    const sign = Math.sign(delta);
+    const a1 = Math.atan2(n1[1] * sign, n1[0] * sign);
+    let sweep = Math.atan2(n2[1] * sign, n2[0] * sign) - a1;
+    while (sweep > Math.PI) sweep -= 2 * Math.PI;
+    while (sweep < -Math.PI) sweep += 2 * Math.PI;
+    const steps = Math.max(1, Math.ceil(Math.abs(sweep) / arcStep));
+    for (let s = 0; s <= steps; s++) {
+      const a = a1 + (sweep * s) / steps;
+      out.push([v[0] + Math.cos(a) * r, v[1] + Math.sin(a) * r]);
+    }
+  }
+  return out;
+}
+
+/**
+ * Splits a ring that crosses itself into the outline of the area it winds around in the
+ * direction `orientation` (the sign of the signed area the ring should have). Pieces between
+ * crossings are kept when the winding number just outside them is zero, and stitched back
+ * into rings at the crossings; inverted loops and the overlaps of folded parts drop out.
+ * Kept rings run like the input for boundaries and reversed for holes that closed off.
+ * Returns null when the pieces do not close up (touching or collinear edges).
+ */
+export function removeSelfIntersections(ring: number[][], orientation: number): number[][][] | null {
+  const n = ring.length;
+  if (n < 3) return [];
+  const minX = ring.map((p, i) => Math.min(p[0], ring[(i + 1) % n][0]));
+  const maxX = ring.map((p, i) => Math.max(p[0], ring[(i + 1) % n][0]));
+  const order = ring.map((_, i) => i).sort((i, j) => minX[i] - minX[j]);
+
+  // Sweep over the edges from left to right, testing only those that overlap in x
+  let nextId = 0;
+  const crossings: Crossing[][] = ring.map(() => []);
+  for (let k = 0; k < n; k++) {
+    const i = order[k];
+    const a = ring[i], b = ring[(i + 1) % n];
+    for (let m = k + 1; m < n && minX[order[m]] <= maxX[i]; m++) {
+      const j = order[m];
+      if (Math.abs(i - j) === 1 || Math.abs(i - j) === n - 1) continue;
+      const c = ring[j], d = ring[(j + 1) % n];
+      if (Math.max(a[1], b[1]) < Math.min(c[1], d[1]) || Math.max(c[1], d[1]) < Math.min(a[1], b[1])) continue;
+      const ex = b[0] - a[0], ey = b[1] - a[1], fx = d[0] - c[0], fy = d[1] - c[1];
+      const denom = ex * fy - ey * fx;
+      if (denom === 0) continue;
+      const t = ((c[0] - a[0]) * fy - (c[1] - a[1]) * fx) / denom;
+      const u = ((c[0] - a[0]) * ey - (c[1] - a[1]) * ex) / denom;
+      // Half-open on both edges, so a crossing through a vertex is counted once
+      if (t < 0 || t >= 1 || u < 0 || u >= 1) continue;
+      const point = [a[0] + ex * t, a[1] + ey * t];
+      const id = nextId++;
+      crossings[i].push({ id, t, point });
+      crossings[j].push({ id, t: u, point });
+    }
+  }
+
+  // A piece lies on the outline when the point just beside its longest edge, on the outer side, is not wound around
+  const onOutline = (points: number[][]) => {
+    let best = 0, bestLen = -1;
+    for (let i = 0; i + 1 < points.length; i++) {
+      const len = Math.hypot(points[i + 1][0] - points[i][0], points[i + 1][1] - points[i][1]);
+      if (len > bestLen) { best = i; bestLen = len; }
+    }
+    if (bestLen <= 0) return false;
+    const a = points[best], b = points[best + 1];
+    const eps = Math.min(1e-4, bestLen / 4) * orientation;
+    const p = [(a[0] + b[0]) / 2 + ((b[1] - a[1]) / bestLen) * eps, (a[1] + b[1]) / 2 - ((b[0] - a[0]) / bestLen) * eps];
+    return windingNumber(p, ring) === 0;
+  };
+
+  if (nextId === 0) return onOutline([...ring, ring[0]]) ? [ring] : [];
+
+  // Chains of the ring between consecutive crossings, keyed by the crossing they start at
+  crossings.forEach(list => list.sort((p, q) => p.t - q.t));
+  const flat: { point: number[]; id: number }[] = [];
+  ring.forEach((p, i) => {
+    flat.push({ point: p, id: -1 });
+    crossings[i].forEach(c => flat.push({ point: c.point, id: c.id }));
+  });
+  const first = flat.findIndex(v => v.id >= 0);
+  const chains = new Map<number, { end: number; points: number[][] }>();
+  let current: number[][] = [flat[first].point];
+  let startId = flat[first].id;
+  for (let s = 1; s <= flat.length; s++) {
+    const v = flat[(first + s) % flat.length];
+    current.push(v.point);
+    if (v.id < 0) continue;
+    if (onOutline(current)) {
+      // Only one of the two chains leaving a crossing can border the outer side
+      if (chains.has(startId)) return null;
+      chains.set(startId, { end: v.id, points: current });
+    }
+    current = [v.point];
+    startId = v.id;
+  }
+
+  const out: number[][][] = [];
+  const used = new Set<number>();
+  for (const start of chains.keys()) {
+    if (used.has(start)) continue;
+    const loop: number[][] = [];
+    let id = start;
+    while (!used.has(id)) {
+      const chain = chains.get(id);
+      if (!chain) return null;
+      used.add(id);
+      loop.push(...chain.points.slice(0, -1));
+      id = chain.end;
+    }
+    if (id !== start) return null;
+    if (loop.length >= 3) out.push(loop);
+  }
+  return out;
+}
+
+// Distance from p to the nearest edge of the ring
+function distanceToRing(p: number[], ring: number[][]): number {
+  let best = Infinity;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i], b = ring[(i + 1) % ring.length];
+    const ex = b[0] - a[0], ey = b[1] - a[1];
+    const lenSq = ex * ex + ey * ey;
+    const t = lenSq > 0 ? Math.max(0, Math.min(1, ((p[0] - a[0]) * ex + (p[1] - a[1]) * ey) / lenSq)) : 0;
+    best = Math.min(best, Math.hypot(p[0] - a[0] - ex * t, p[1] - a[1] - ey * t));
+  }
+  return best;
+}
+
+// The rings left of `offset`, the ring offset by `delta`; see removeSelfIntersections. Where
+// those do not close up the offset is kept as it is, unless it turned inside out as a whole.
+function cleanOffset(ring: number[][], offset: number[][], delta: number): number[][][] {
+  const orientation = Math.sign(signedArea(ring));
+  const rings = removeSelfIntersections(offset, orientation) ?? (Math.sign(signedArea(offset)) === orientation ? [offset] : []);
+  // A part shrunk past its middle comes out mirrored with the same orientation, but its
+  // vertices (the crossings aside) lie closer to the contour than the offset
+  const own = new Set(offset);
+  return rings.filter(r => {
+    const probe = r.find(p => own.has(p));
+    return !probe || distanceToRing(probe, ring) >= Math.abs(delta) * (1 - 1e-6);
+  });
+}
+
+/**
+ * How far kerf compensation moves a closed contour in document units, positive when its
+ * enclosed area grows. The dark regions shrink (cut away as openings) or grow (kept as parts)
+ * by half the kerf, so outer boundaries and holes move in opposite directions.
+ */
+export function kerfOffset(hole: boolean, kerf: KerfSettings): number {
+  if (kerf.width <= 0) return 0;
+  const half = (kerf.width / 2) * PT_PER_MM;
+  const grow = kerf.keep === 'part' ? 1 : -1;
+  return half * grow * (hole ? -1 : 1);
+}
+
+/**
+ * Grows the dark region of one closed contour by `distance` document units (negative shrinks
+ * it), with round joins. A contour can split into several rings or vanish, e.g. a hole
+ * smaller than the offset; rings that run the other way than `ring` are holes closed off.
+ */
+export function offsetContour(ring: number[][], hole: boolean, distance: number): number[][][] {
+  const delta = hole ? -distance : distance;
+  return cleanOffset(ring, offsetRing(ring, delta, 'round', KERF_TOLERANCE_MM * PT_PER_MM), delta);
+}
+
+/**
+ * Kerf compensation of one closed contour in document units, see kerfOffset. Like
+ * offsetContour the result can be several rings, or none for parts thinner than the kerf.
+ */
+export function compensateKerf(ring: number[][], hole: boolean, kerf: KerfSettings): number[][][] {
+  if (kerf.width <= 0) return [ring];
+  const delta = kerfOffset(hole, kerf);
+  return cleanOffset(ring, offsetRing(ring, delta, kerf.join, KERF_TOLERANCE_MM * PT_PER_MM), delta);
+}
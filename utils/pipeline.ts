@@ -0,0 +1,222 @@
+import { AppSettings, BridgeReport, BridgeSegment, CurveFitSettings, DrcViolation, KerfSettings, PackedMask, TraceMode } from '../types';
+
+export type PipelineStage = 'preprocess' | 'threshold' | 'postprocess' | 'smooth' | 'preview' | 'contours' | 'order' | 'paths' | 'drc' | 'export';
+
+export interface JobProgress {
+  stage: PipelineStage;
+  progress: number; // 0-1 over the whole job
+}
+
+export type ExportFormat = 'svg' | 'dxf' | 'gcode' | 'hpgl';
+
+export interface MaskJobInput {
+  rgba: Uint8ClampedArray; // Image resampled to the internal mask resolution
+  sourceId: number; // Changes whenever `rgba` does, so the worker can keep what it derived from it
+  width: number;
+  height: number;
+  docWidth: number;
+  docHeight: number;
+  settings: AppSettings;
+}
+
+// One tone band of a posterized image, with its own bridges
+export interface MaskLayer {
+  mask: PackedMask;
+  preview: Uint8ClampedArray<ArrayBuffer>; // RGBA, the band in its tint and transparent elsewhere
+  tint: string; // #rrggbb mean colour of the band
+  bridges: BridgeReport; // Document units
+}
+
+export interface MaskJobResult {
+  mask: PackedMask;
+  preview: Uint8ClampedArray<ArrayBuffer>; // RGBA preview of the mask
+  source: Uint8ClampedArray<ArrayBuffer>; // RGBA preview of the pre-processed greyscale image
+  threshold: number | null; // Global threshold that was applied, null for adaptive modes, posterization and colour selection
+  bridges: BridgeReport; // Islands and bridges, document units
+  islands: Uint8ClampedArray<ArrayBuffer> | null; // RGBA overlay tinting the islands, null outside stencil mode
+  layers: MaskLayer[] | null; // Tone bands from dark to light when posterizing; `mask` is then the darkest band
+}
+
+export interface VectorJobInput {
+  mask: PackedMask;
+  docWidth: number;
+  docHeight: number;
+  vectorSmoothing: number;
+  curveFit: CurveFitSettings;
+  traceMode: TraceMode;
+  optimizeCutOrder: boolean;
+  kerf: KerfSettings;
+  bridges: BridgeSegment[]; // Cut out of the contours as vector bridges; empty when they are in the mask
+  offsetDistance: number; // mm, distance of the offset lines from the outlines; 0 for none
+  layers: { mask: PackedMask; bridges: BridgeSegment[] }[]; // Posterized tone bands, traced as well; empty otherwise
+}
+
+export interface VectorPath {
+  d: string; // SVG path data of one compound shape or centre line
+  closed: boolean; // Closed shapes can be filled
+}
+
+export interface TravelEstimate {
+  before: number; // Travel between cuts in raster order, document units
+  after: number; // Travel with the optimized cut order
+}
+
+export interface VectorJobResult {
+  paths: VectorPath[];
+  offsets: string[]; // SVG path data of the offset lines, one ring per entry
+  travel: TravelEstimate | null; // Null when the cut order is not optimized
+  layers: VectorPath[][]; // Paths of each entry in VectorJobInput.layers
+}
+
+export interface DrcJobInput {
+  mask: PackedMask;
+  docWidth: number;
+  docHeight: number;
+  minFeatureWidth: number; // mm
+  stencilMode: boolean;
+  kerf: KerfSettings | null; // Compensation of the cut outlines, null when off or tracing centre lines
+}
+
+export interface DrcJobResult {
+  violations: DrcViolation[];
+}
+
+export interface ExportJobInput {
+  mask: PackedMask;
+  settings: AppSettings;
+  format: ExportFormat;
+  bridges: BridgeSegment[]; // Reported bridges, document units; used when settings.vectorBridges is on
+}
+
+export interface ExportJobResult {
+  content: string;
+}
+
+export interface PipelineJobs {
+  mask: { input: MaskJobInput; result: MaskJobResult };
+  vector: { input: VectorJobInput; result: VectorJobResult };
+  drc: { input: DrcJobInput; result: DrcJobResult };
+  export: { input: ExportJobInput; result: ExportJobResult };
+}
+
+export type PipelineJobKind = keyof PipelineJobs;
+
+type JobResult = PipelineJobs[PipelineJobKind]['result'];
+
+export type PipelineRequest =
+  | { type: 'run'; id: number; kind: PipelineJobKind; input: PipelineJobs[PipelineJobKind]['input'] }
+  | { type: 'cancel'; id: number };
+
+export type PipelineResponse =
+  | { type: 'progress'; id: number; progress: JobProgress }
+  | { type: 'done'; id: number; result: JobResult }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Pipeline job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export const isJobCancelled = (err: unknown): boolean => err instanceof JobCancelledError;
+
+export interface RunOptions {
+  transfer?: Transferable[];
+  onProgress?: (progress: JobProgress) => void;
+}
+
+export interface Pipeline {
+  /**
+   * Starts a job in the worker. Only one job per kind is active: starting a new one
+   * cancels the previous job of that kind, whose promise rejects with JobCancelledError.
+   */
+  run<K extends PipelineJobKind>(kind: K, input: PipelineJobs[K]['input'], options?: RunOptions): Promise<PipelineJobs[K]['result']>;
+  cancel(kind: PipelineJobKind): void;
+  dispose(): void;
+}
+
+interface PendingJob {
+  kind: PipelineJobKind;
+  resolve: (result: JobResult) => void; // Narrowed to the result of `kind` in run()
+  reject: (err: Error) => void;
+  onProgress?: (progress: JobProgress) => void;
+}
+
+/**
+ * Client for the mask/vector worker. The worker is created lazily, so a disposed
+ * pipeline starts a fresh worker on the next run.
+ */
+export function createPipeline(): Pipeline {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, PendingJob>();
+  const active = new Map<PipelineJobKind, number>();
+
+  const settle = (id: number) => {
+    const job = pending.get(id);
+    if (!job) return undefined;
+    pending.delete(id);
+    if (active.get(job.kind) === id) active.delete(job.kind);
+    return job;
+  };
+
+  const handleMessage = (e: MessageEvent<PipelineResponse>) => {
+    const msg = e.data;
+    if (msg.type === 'progress') {
+      pending.get(msg.id)?.onProgress?.(msg.progress);
+      return;
+    }
+    // Stale jobs were already settled on cancel, so their late replies are dropped here
+    const job = settle(msg.id);
+    if (!job) return;
+    if (msg.type === 'done') job.resolve(msg.result);
+    else if (msg.type === 'cancelled') job.reject(new JobCancelledError());
+    else job.reject(new Error(msg.message));
+  };
+
+  const rejectAll = (err: Error) => {
+    Array.from(pending.keys()).forEach(id => settle(id)?.reject(err));
+  };
+
+  const getWorker = () => {
+    if (!worker) {
+      worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = handleMessage;
+      worker.onerror = (e) => {
+        console.error("Pipeline worker error:", e.message);
+        worker?.terminate();
+        worker = null;
+        rejectAll(new Error(e.message || 'Pipeline worker crashed'));
+      };
+    }
+    return worker;
+  };
+
+  const cancel = (kind: PipelineJobKind) => {
+    const id = active.get(kind);
+    if (id === undefined) return;
+    worker?.postMessage({ type: 'cancel', id } satisfies PipelineRequest);
+    settle(id)?.reject(new JobCancelledError());
+  };
+
+  return {
+    run(kind, input, options = {}) {
+      cancel(kind);
+      const id = nextId++;
+      return new Promise((resolve, reject) => {
+        // The worker answers each id with the result of the kind it was started with
+        pending.set(id, { kind, resolve: result => resolve(result as PipelineJobs[typeof kind]['result']), reject, onProgress: options.onProgress });
+        active.set(kind, id);
+        getWorker().postMessage({ type: 'run', id, kind, input } satisfies PipelineRequest, options.transfer ?? []);
+      });
+    },
+    cancel,
+    dispose() {
+      worker?.terminate();
+      worker = null;
+      rejectAll(new JobCancelledError());
+    }
+  };
+}
@@ -0,0 +1,388 @@
+import { AppSettings, BridgeReport, BridgeSegment, MaskGrid, PackedMask } from '../types';
+import {
+  ExportFormat,
+  JobCancelledError,
+  MaskJobInput,
+  MaskLayer,
+  PipelineJobs,
+  PipelineJobKind,
+  PipelineRequest,
+  PipelineResponse,
+  PipelineStage,
+  TravelEstimate,
+  VectorJobInput,
+  VectorPath
+} from './pipeline';
+import { computeLuminance, binarize } from './threshold';
+import { preprocessLuminance, renderLuminancePreview } from './preprocess';
+import { posterize, bandMask, ToneBands } from './posterize';
+import { colorKeyMask } from './colorkey';
+import { buildEdgeField } from './marchingsquares';
+import { PT_PER_MM } from '../constants';
+import { cloneMask, copyRect, diffRect, rectsIntersect, unionRect } from './mask';
+import {
+  ContourReuse,
+  EraseStroke,
+  createContourReuse,
+  bridgeMask,
+  eraseStroke,
+  strokeRect,
+  smoothMask,
+  renderMaskPreview,
+  renderIslandOverlay,
+  renderLayerPreview,
+  traceCutPaths,
+  groupCompoundShapes
+} from './processing';
+import { optimizeCutOrder } from './cutorder';
+import { detectPrimitives } from './primitives';
+import { checkManufacturability } from './drc';
+import { buildSvgFromMask, buildDxfFromMask, buildGcodeFromMask, buildHpglFromMask, applyKerf, applyVectorBridges, buildShapePath, buildPolylinePath, offsetOutlines } from './generators';
+
+const ctx = self as unknown as Worker;
+const cancelledJobs = new Set<number>();
+
+const post = (msg: PipelineResponse, transfer: Transferable[] = []) => ctx.postMessage(msg, transfer);
+
+interface JobContext {
+  /**
+   * Reports progress and yields to the event loop so cancel messages get through.
+   * Throws JobCancelledError when the job has been superseded.
+   */
+  checkpoint(stage: PipelineStage, progress: number): Promise<void>;
+}
+
+interface JobOutput<R> {
+  result: R;
+  transfer: Transferable[];
+}
+
+type JobHandler<K extends PipelineJobKind> = (input: PipelineJobs[K]['input'], job: JobContext) => Promise<JobOutput<PipelineJobs[K]['result']>>;
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+function createJobContext(id: number): JobContext {
+  return {
+    async checkpoint(stage, progress) {
+      post({ type: 'progress', id, progress: { stage, progress } });
+      await yieldToEventLoop();
+      if (cancelledJobs.has(id)) throw new JobCancelledError();
+    }
+  };
+}
+
+// Thresholded masks, one per tone band (just one without posterizing), with what they came from
+interface BaseStage {
+  key: string;
+  lum: Float32Array;
+  source: Uint8ClampedArray<ArrayBuffer>;
+  bands: ToneBands | null;
+  masks: MaskGrid[];
+  threshold: number | null;
+  levels: Float32Array | null;
+}
+
+// The base masks with the eraser strokes applied, in mask pixels
+interface EraseStage {
+  strokes: EraseStroke[];
+  keys: string[];
+  masks: MaskGrid[];
+}
+
+interface BridgeStage {
+  key: string;
+  masks: MaskGrid[];
+  reports: BridgeReport[]; // Mask pixels
+  islandMap: Int32Array | null; // Of the first band
+}
+
+/**
+ * The mask job's intermediate results. Each stage is kept until its own settings or an earlier
+ * stage change, so an eraser stroke or a bridge edit does not threshold the image again.
+ */
+let maskStages: { base: BaseStage; erased: EraseStage; bridged: BridgeStage | null } | null = null;
+
+async function thresholdStage(input: MaskJobInput, job: JobContext, key: string): Promise<BaseStage> {
+  const { rgba, width: w, height: h, docWidth, settings } = input;
+  const pxPerMm = PT_PER_MM * (w / docWidth);
+
+  await job.checkpoint('preprocess', 0);
+  const lum = preprocessLuminance(computeLuminance(rgba, w, h), w, h, settings.preprocess, pxPerMm);
+  const source = renderLuminancePreview(lum, w, h);
+
+  await job.checkpoint('threshold', 0.15);
+  // Posterizing replaces the threshold; the darkest band stands in for the single mask, so the
+  // island overlay, bridge editing and the manufacturability check work on that one
+  const bands = settings.posterize.enabled ? posterize(lum, rgba, w, h, settings.posterize) : null;
+  if (bands) {
+    const masks = bands.tints.map((_, band) => bandMask(bands.labels, w, h, band));
+    return { key, lum, source, bands, masks, threshold: null, levels: null };
+  }
+  if (settings.colorKey.enabled && settings.colorKey.colors.length > 0) {
+    return { key, lum, source, bands, masks: [colorKeyMask(rgba, w, h, settings.colorKey)], threshold: null, levels: null };
+  }
+  const { mask, threshold, levels } = binarize(lum, w, h, settings, pxPerMm);
+  return { key, lum, source, bands, masks: [mask], threshold, levels };
+}
+
+/**
+ * Brings the erased masks up to date with `strokes`. Strokes after the part both lists share
+ * were added or undone: the pixels the undone ones covered are restored from the base and the
+ * strokes that reach into them redrawn, then the new strokes are drawn. Only those rectangles
+ * are touched. Returns whether anything changed.
+ */
+function updateErased(stages: { base: BaseStage; erased: EraseStage }, strokes: EraseStroke[], w: number, h: number): boolean {
+  const { base, erased } = stages;
+  const keys = strokes.map(stroke => JSON.stringify(stroke));
+  let shared = 0;
+  while (shared < keys.length && shared < erased.keys.length && keys[shared] === erased.keys[shared]) shared++;
+  if (shared === keys.length && shared === erased.keys.length) return false;
+
+  const restored = erased.strokes.slice(shared).map(stroke => strokeRect(stroke, w, h)).reduce(unionRect, null);
+  erased.masks.forEach((mask, band) => {
+    if (restored) {
+      copyRect(base.masks[band], mask, restored);
+      strokes.slice(0, shared).forEach(stroke => {
+        const rect = strokeRect(stroke, w, h);
+        if (rect && rectsIntersect(rect, restored)) eraseStroke(mask, stroke, w, h);
+      });
+    }
+    strokes.slice(shared).forEach(stroke => eraseStroke(mask, stroke, w, h));
+  });
+  erased.strokes = strokes;
+  erased.keys = keys;
+  return true;
+}
+
+const runMaskJob: JobHandler<'mask'> = async (input, job) => {
+  const { width: w, height: h, docWidth, settings } = input;
+
+  const docToMask = w / docWidth;
+
+  const pxPerMm = PT_PER_MM * docToMask;
+
+  const baseKey = JSON.stringify([
+    input.sourceId, w, h, input.docWidth, input.docHeight, settings.threshold, settings.thresholdMode, settings.adaptiveWindow, settings.adaptiveOffset, settings.sauvolaK,
+    settings.preprocess, settings.posterize.enabled, settings.posterize.levels, settings.posterize.method, settings.colorKey
+  ]);
+  if (maskStages?.base.key !== baseKey) {
+    maskStages = null;
+    const base = await thresholdStage(input, job, baseKey);
+    maskStages = { base, erased: { strokes: [], keys: [], masks: base.masks.map(cloneMask) }, bridged: null };
+  }
+  const stages = maskStages;
+  const { base } = stages;
+
+  await job.checkpoint('postprocess', 0.25);
+  const erasedPaths = settings.erasedPaths.map(p => ({
+    points: p.points.map(pt => ({ x: pt.x * docToMask, y: pt.y * docToMask })),
+    size: p.size * docToMask
+  }));
+  if (updateErased(stages, erasedPaths, w, h)) stages.bridged = null;
+
+  const postProcessSettings = {
+    stencilMode: settings.stencilMode,
+    bridgeWidth: settings.bridgeWidth * docToMask,
+    bridgeCount: settings.bridgeCount,
+    manualBridges: settings.manualBridges.map(b => ({
+      ...b, x: b.x * docToMask, y: b.y * docToMask, width: b.width === null ? null : b.width * docToMask
+    })),
+    // Reported bridges run between pixel centres, see below
+    lockedBridges: settings.lockedBridges.map(b => ({
+      x1: b.x1 * docToMask - 0.5, y1: b.y1 * docToMask - 0.5, x2: b.x2 * docToMask - 0.5, y2: b.y2 * docToMask - 0.5, width: b.width * docToMask
+    })),
+    removedBridges: settings.removedBridges.map(b => ({ x: b.x * docToMask - 0.5, y: b.y * docToMask - 0.5 })),
+    vectorBridges: settings.vectorBridges
+  };
+  // The other bands go through the same bridges and smoothing as the darkest one
+  const bridgeKey = JSON.stringify(postProcessSettings);
+  if (stages.bridged?.key !== bridgeKey) {
+    const masks: MaskGrid[] = [], reports: BridgeReport[] = [];
+    let islandMap: Int32Array | null = null;
+    for (let band = 0; band < stages.erased.masks.length; band++) {
+      await job.checkpoint('postprocess', 0.25 + (0.45 * band) / stages.erased.masks.length);
+      const mask = cloneMask(stages.erased.masks[band]);
+      const bridged = bridgeMask(mask, w, h, postProcessSettings);
+      if (band === 0) islandMap = bridged.islandMap;
+      masks.push(mask);
+      reports.push(bridged.report);
+    }
+    stages.bridged = { key: bridgeKey, masks, reports, islandMap };
+  }
+  const { reports, islandMap } = stages.bridged;
+
+  // Smoothing is cheap next to the stages above and works on copies, which are handed over to the main thread
+  await job.checkpoint('smooth', 0.7);
+  const masks = stages.bridged.masks.map(cloneMask);
+  if (settings.smooth > 0) masks.forEach(mask => smoothMask(mask, w, h, settings.smooth));
+
+  const toDocReport = (report: BridgeReport): BridgeReport => ({
+    islands: report.islands.map(island => ({
+      ...island, x: (island.x + 0.5) / docToMask, y: (island.y + 0.5) / docToMask, area: island.area / (pxPerMm * pxPerMm)
+    })),
+    bridges: report.bridges.map(b => ({
+      ...b,
+      x1: (b.x1 + 0.5) / docToMask, y1: (b.y1 + 0.5) / docToMask,
+      x2: (b.x2 + 0.5) / docToMask, y2: (b.y2 + 0.5) / docToMask,
+      width: b.width / docToMask
+    }))
+  });
+  const bridges = toDocReport(reports[0]);
+  const transfer: Transferable[] = [];
+  // Only a thresholded mask has a greyscale level to follow; the others get the mask as edge field
+  const withEdges = (layerMask: MaskGrid, lumLevels: Float32Array | null): PackedMask => {
+    const packed: PackedMask = layerMask;
+    if (settings.subpixelContours) packed.edges = buildEdgeField(layerMask, w, h, lumLevels && base.lum, lumLevels);
+    transfer.push(packed.data.buffer);
+    if (packed.edges) transfer.push(packed.edges.buffer);
+    return packed;
+  };
+  const mask = masks[0];
+  const packed = withEdges(mask, base.levels);
+
+  await job.checkpoint('preview', 0.9);
+  const layers: MaskLayer[] | null = base.bands && masks.map((layerMask, band) => {
+    const tint = base.bands!.tints[band];
+    const layer: MaskLayer = {
+      mask: band === 0 ? packed : withEdges(layerMask, null),
+      preview: renderLayerPreview(layerMask, w, h, tint),
+      tint,
+      bridges: band === 0 ? bridges : toDocReport(reports[band])
+    };
+    transfer.push(layer.preview.buffer);
+    return layer;
+  });
+
+  const preview = renderMaskPreview(mask, w, h);
+  const islands = islandMap ? renderIslandOverlay(islandMap, mask, w, h) : null;
+  // The source preview stays cached, so it goes over as a copy
+  const source = base.source.slice();
+  transfer.push(preview.buffer, source.buffer);
+  if (islands) transfer.push(islands.buffer);
+  return { result: { mask: packed, preview, source, threshold: base.threshold, bridges, islands, layers }, transfer };
+};
+
+// The masks the vector job traced last (the main mask, then the tone bands) with their labelling
+interface TraceCache {
+  key: string;
+  data: Uint8Array;
+  edges?: Uint8Array;
+  reuse: ContourReuse;
+}
+
+const traceCaches: TraceCache[] = [];
+
+/**
+ * The labelling of the last trace of this mask slot, with where the mask changed since, so that
+ * after an eraser stroke or bridge edit only the contours around it are extracted again.
+ */
+function contourReuse(slot: number, packed: PackedMask, input: VectorJobInput): ContourReuse {
+  const { width: w, height: h } = packed;
+  const key = JSON.stringify([w, h, input.docWidth, input.docHeight, !!packed.edges]);
+  const previous = traceCaches[slot];
+  let reuse = createContourReuse();
+  if (previous?.key === key) {
+    reuse = previous.reuse;
+    reuse.dirty = unionRect(diffRect(previous.data, packed.data, w, h), previous.edges && packed.edges ? diffRect(previous.edges, packed.edges, w, h) : null);
+  }
+  traceCaches[slot] = { key, data: packed.data, edges: packed.edges, reuse };
+  return reuse;
+}
+
+/**
+ * Traces one mask into preview paths, reporting progress between `from` and `to`.
+ */
+async function traceVectorPaths(packed: PackedMask, slot: number, bridges: BridgeSegment[], input: VectorJobInput, job: JobContext, from: number, to: number) {
+  const { docWidth, docHeight } = input;
+  const smoothing = Math.max(input.vectorSmoothing, 0.5);
+  const reuse = input.traceMode === 'outline' ? contourReuse(slot, packed, input) : undefined;
+  let cutPaths = detectPrimitives(traceCutPaths(packed, packed.width, packed.height, docWidth, docHeight, input.traceMode, packed.edges, reuse), input.curveFit);
+  const kerfed = applyKerf(cutPaths, smoothing, input.curveFit, input.kerf);
+  cutPaths = applyVectorBridges(kerfed, smoothing, input.curveFit, input.kerf, bridges, docWidth / packed.width);
+  let travel: TravelEstimate | null = null;
+  if (input.optimizeCutOrder) {
+    await job.checkpoint('order', from + 0.2 * (to - from));
+    const ordered = optimizeCutOrder(cutPaths, [0, docHeight]);
+    cutPaths = ordered.paths;
+    travel = { before: ordered.travelBefore, after: ordered.travelAfter };
+  }
+  const shapes = groupCompoundShapes(cutPaths);
+  const flattened = input.kerf.width > 0 || bridges.length > 0;
+
+  const paths: VectorPath[] = [];
+  for (let i = 0; i < shapes.length; i++) {
+    if (i % 50 === 0) await job.checkpoint('paths', from + (to - from) * (0.3 + 0.7 * (i / shapes.length)));
+    const d = buildShapePath(shapes[i], 3000, smoothing, input.curveFit, flattened);
+    if (d) paths.push({ d, closed: shapes[i].closed });
+  }
+  return { paths, cutPaths, flattened, travel };
+}
+
+const runVectorJob: JobHandler<'vector'> = async (input, job) => {
+  await job.checkpoint('contours', 0);
+  const share = 1 / (input.layers.length + 1);
+  const { paths, cutPaths, flattened, travel } = await traceVectorPaths(input.mask, 0, input.bridges, input, job, 0, share);
+  const smoothing = Math.max(input.vectorSmoothing, 0.5);
+  const offsets = offsetOutlines(cutPaths, flattened, smoothing, input.curveFit, input.offsetDistance).map(ring => buildPolylinePath(ring));
+
+  traceCaches.length = Math.min(traceCaches.length, input.layers.length + 1);
+  const layers: VectorPath[][] = [];
+  for (let i = 0; i < input.layers.length; i++) {
+    await job.checkpoint('contours', share * (i + 1));
+    const { mask, bridges } = input.layers[i];
+    layers.push((await traceVectorPaths(mask, i + 1, bridges, input, job, share * (i + 1), share * (i + 2))).paths);
+  }
+  return { result: { paths, offsets, travel, layers }, transfer: [] };
+};
+
+const runDrcJob: JobHandler<'drc'> = async (input, job) => {
+  const { mask: packed, docWidth, docHeight } = input;
+  await job.checkpoint('drc', 0);
+  const pxPerMm = PT_PER_MM * (packed.width / docWidth);
+  const violations = checkManufacturability(packed, packed.width, packed.height, docWidth, docHeight, input.minFeatureWidth, pxPerMm, input.stencilMode, input.kerf);
+  return { result: { violations }, transfer: [] };
+};
+
+const exportBuilders: Record<ExportFormat, (mask: MaskGrid, settings: AppSettings, bridges: BridgeSegment[], edges?: Uint8Array) => string> = {
+  svg: buildSvgFromMask,
+  dxf: buildDxfFromMask,
+  gcode: buildGcodeFromMask,
+  hpgl: buildHpglFromMask
+};
+
+const runExportJob: JobHandler<'export'> = async (input, job) => {
+  await job.checkpoint('export', 0);
+  const content = exportBuilders[input.format](input.mask, input.settings, input.bridges, input.mask.edges);
+  return { result: { content }, transfer: [] };
+};
+
+const handlers: { [K in PipelineJobKind]: JobHandler<K> } = {
+  mask: runMaskJob,
+  vector: runVectorJob,
+  drc: runDrcJob,
+  export: runExportJob
+};
+
+ctx.onmessage = async (e: MessageEvent<PipelineRequest>) => {
+  const msg = e.data;
+  if (msg.type === 'cancel') {
+    cancelledJobs.add(msg.id);
+    return;
+  }
+
+  const job = createJobContext(msg.id);
+  try {
+    const handler = handlers[msg.kind] as JobHandler<PipelineJobKind>;
+    const { result, transfer } = await handler(msg.input as never, job);
+    post({ type: 'done', id: msg.id, result }, transfer);
+  } catch (err) {
+    if (err instanceof JobCancelledError) {
+      post({ type: 'cancelled', id: msg.id });
+    } else {
+      console.error("Pipeline job failed:", err);
+      post({ type: 'error', id: msg.id, message: err instanceof Error ? err.message : String(err) });
+    }
+  } finally {
+    cancelledJobs.delete(msg.id);
+  }
+};
@@ -0,0 +1,115 @@
+import { MaskGrid, PosterizeSettings } from '../types';
+import { maskFromTest } from './mask';
+
+// K-means runs on a subsample of the pixels; the assignment afterwards covers all of them
+const KMEANS_SAMPLES = 20000;
+const KMEANS_ITERATIONS = 12;
+
+export interface ToneBands {
+  labels: Uint8Array; // Band per pixel, 0 is the darkest
+  tints: string[]; // #rrggbb mean colour of each band in the source image
+}
+
+const luminanceOf = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+const colourDist2 = (a: number[], b: number[]) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+/**
+ * Equal luminance ranges between the darkest and lightest pixel.
+ */
+function luminanceLabels(lum: Float32Array, levels: number): Uint8Array {
+  let min = Infinity, max = -Infinity;
+  for (let i = 0; i < lum.length; i++) {
+    if (lum[i] < min) min = lum[i];
+    if (lum[i] > max) max = lum[i];
+  }
+  const step = Math.max(max - min, 1) / levels;
+  const labels = new Uint8Array(lum.length);
+  for (let i = 0; i < lum.length; i++) labels[i] = Math.min(levels - 1, Math.floor((lum[i] - min) / step));
+  return labels;
+}
+
+/**
+ * K-means clusters of the RGB colours, numbered from dark to light. The centres start at the
+ * darkest sample and then each time at the sample farthest from the centres so far, so the
+ * result does not change between runs.
+ */
+function kmeansLabels(rgba: Uint8ClampedArray, count: number, levels: number): Uint8Array {
+  const stride = Math.max(1, Math.floor(count / KMEANS_SAMPLES));
+  const samples: number[] = [];
+  for (let i = 0; i < count; i += stride) samples.push(i);
+
+  const dist2 = (i: number, c: number[]) => {
+    const dr = rgba[i * 4] - c[0], dg = rgba[i * 4 + 1] - c[1], db = rgba[i * 4 + 2] - c[2];
+    return dr * dr + dg * dg + db * db;
+  };
+  const nearest = (i: number, centres: number[][]) => {
+    let best = 0, bestD = Infinity;
+    for (let k = 0; k < centres.length; k++) {
+      const d = dist2(i, centres[k]);
+      if (d < bestD) { bestD = d; best = k; }
+    }
+    return best;
+  };
+
+  let darkest = samples[0];
+  for (const i of samples) {
+    if (luminanceOf(rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2]) < luminanceOf(rgba[darkest * 4], rgba[darkest * 4 + 1], rgba[darkest * 4 + 2])) darkest = i;
+  }
+  const centres = [[rgba[darkest * 4], rgba[darkest * 4 + 1], rgba[darkest * 4 + 2]]];
+  while (centres.length < levels) {
+    let far = samples[0], farD = -1;
+    for (const i of samples) {
+      const d = dist2(i, centres[nearest(i, centres)]);
+      if (d > farD) { farD = d; far = i; }
+    }
+    centres.push([rgba[far * 4], rgba[far * 4 + 1], rgba[far * 4 + 2]]);
+  }
+
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    const sums = centres.map(() => [0, 0, 0, 0]);
+    for (const i of samples) {
+      const s = sums[nearest(i, centres)];
+      s[0] += rgba[i * 4]; s[1] += rgba[i * 4 + 1]; s[2] += rgba[i * 4 + 2]; s[3]++;
+    }
+    let moved = false;
+    sums.forEach((s, k) => {
+      if (!s[3]) return; // An empty cluster keeps its centre
+      const next = [s[0] / s[3], s[1] / s[3], s[2] / s[3]];
+      if (colourDist2(next, centres[k]) > 0.25) moved = true;
+      centres[k] = next;
+    });
+    if (!moved) break;
+  }
+
+  const order = centres.map((_, k) => k).sort((a, b) => luminanceOf(centres[a][0], centres[a][1], centres[a][2]) - luminanceOf(centres[b][0], centres[b][1], centres[b][2]));
+  const rank = new Uint8Array(levels);
+  order.forEach((k, r) => { rank[k] = r; });
+  const labels = new Uint8Array(count);
+  for (let i = 0; i < count; i++) labels[i] = rank[nearest(i, centres)];
+  return labels;
+}
+
+/**
+ * Splits the image into `settings.levels` tone bands. Luminance bands follow the
+ * pre-processed greyscale image; colour clusters use the original colours.
+ */
+export function posterize(lum: Float32Array, rgba: Uint8ClampedArray, w: number, h: number, settings: PosterizeSettings): ToneBands {
+  const levels = Math.max(2, Math.min(6, Math.round(settings.levels)));
+  const labels = settings.method === 'kmeans' ? kmeansLabels(rgba, w * h, levels) : luminanceLabels(lum, levels);
+
+  const sums = Array.from({ length: levels }, () => [0, 0, 0, 0]);
+  for (let i = 0; i < w * h; i++) {
+    const s = sums[labels[i]];
+    s[0] += rgba[i * 4]; s[1] += rgba[i * 4 + 1]; s[2] += rgba[i * 4 + 2]; s[3]++;
+  }
+  const hex = (v: number) => Math.round(v).toString(16).padStart(2, '0');
+  const tints = sums.map(s => s[3] ? `#${hex(s[0] / s[3])}${hex(s[1] / s[3])}${hex(s[2] / s[3])}` : '#808080');
+  return { labels, tints };
+}
+
+/**
+ * The mask of one tone band.
+ */
+export function bandMask(labels: Uint8Array, w: number, h: number, band: number): MaskGrid {
+  return maskFromTest(w, h, idx => labels[idx] === band);
+}
@@ -0,0 +1,109 @@
+import { PreprocessSettings } from '../types';
+import { gaussianBlur } from './threshold';
+
+export const DEFAULT_PREPROCESS: PreprocessSettings = {
+  brightness: 0,
+  contrast: 0,
+  gamma: 1,
+  blur: 0,
+  sharpen: 0,
+  denoise: 0,
+  invert: false
+};
+
+const clamp255 = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+/**
+ * Brightness, contrast and gamma as one 256-entry lookup table.
+ */
+function buildLevelsTable(settings: PreprocessSettings): Float32Array {
+  const table = new Float32Array(256);
+  const c = settings.contrast * 2.55;
+  const contrastFactor = (259 * (c + 255)) / (255 * (259 - c));
+  const invGamma = 1 / Math.max(0.05, settings.gamma);
+  for (let v = 0; v < 256; v++) {
+    let out = v + settings.brightness * 1.28;
+    out = contrastFactor * (out - 128) + 128;
+    out = 255 * Math.pow(clamp255(out) / 255, invGamma);
+    table[v] = clamp255(out);
+  }
+  return table;
+}
+
+/**
+ * Median filter with a sliding histogram (Huang), so the cost per pixel grows with the
+ * radius instead of the window area.
+ */
+export function medianFilter(values: Float32Array, w: number, h: number, radius: number): Float32Array {
+  if (radius <= 0) return values;
+  const src = new Uint8Array(w * h);
+  for (let i = 0; i < w * h; i++) src[i] = Math.round(clamp255(values[i]));
+  const out = new Float32Array(w * h);
+  const hist = new Int32Array(256);
+
+  for (let y = 0; y < h; y++) {
+    const y0 = Math.max(0, y - radius), y1 = Math.min(h - 1, y + radius);
+    hist.fill(0);
+    let count = 0, med = 0, below = 0; // below: samples in the window smaller than med
+    const addColumn = (x: number, delta: number) => {
+      if (x < 0 || x >= w) return;
+      for (let yy = y0; yy <= y1; yy++) {
+        const v = src[yy * w + x];
+        hist[v] += delta;
+        if (v < med) below += delta;
+      }
+      count += delta * (y1 - y0 + 1);
+    };
+    for (let x = 0; x <= radius; x++) addColumn(x, 1);
+
+    for (let x = 0; x < w; x++) {
+      if (x > 0) {
+        addColumn(x - radius - 1, -1);
+        addColumn(x + radius, 1);
+      }
+      const half = count >> 1;
+      while (med > 0 && below > half) { med--; below -= hist[med]; }
+      while (med < 255 && below + hist[med] <= half) { below += hist[med]; med++; }
+      out[y * w + x] = med;
+    }
+  }
+  return out;
+}
+
+/**
+ * Applies the pre-processing chain to a luminance image: levels, invert, median denoise,
+ * Gaussian blur and unsharp-mask sharpening. Blur and denoise radii are in millimetres.
+ */
+export function preprocessLuminance(lum: Float32Array, w: number, h: number, settings: PreprocessSettings, pxPerMm: number): Float32Array {
+  const table = buildLevelsTable(settings);
+  let out: Float32Array = new Float32Array(w * h);
+  for (let i = 0; i < w * h; i++) {
+    const v = table[Math.round(clamp255(lum[i]))];
+    out[i] = settings.invert ? 255 - v : v;
+  }
+
+  if (settings.denoise > 0) out = medianFilter(out, w, h, Math.max(1, Math.round(settings.denoise * pxPerMm)));
+
+  if (settings.blur > 0) out = gaussianBlur(out, w, h, settings.blur * pxPerMm);
+
+  if (settings.sharpen > 0) {
+    const blurred = gaussianBlur(out, w, h, Math.max(1, 0.3 * pxPerMm));
+    for (let i = 0; i < w * h; i++) out[i] = clamp255(out[i] + settings.sharpen * (out[i] - blurred[i]));
+  }
+  return out;
+}
+
+/**
+ * Greyscale RGBA rendering of a luminance image for the "source" preview.
+ */
+export function renderLuminancePreview(lum: Float32Array, w: number, h: number): Uint8ClampedArray<ArrayBuffer> {
+  const out = new Uint8ClampedArray(w * h * 4);
+  for (let i = 0; i < w * h; i++) {
+    const v = lum[i];
+    out[i * 4] = v;
+    out[i * 4 + 1] = v;
+    out[i * 4 + 2] = v;
+    out[i * 4 + 3] = 255;
+  }
+  return out;
+}
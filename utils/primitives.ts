@@ -0,0 +1,133 @@
+import { CurveFitSettings, CutPath, Primitive } from '../types';
+import { fitTolerance } from './curvefit';
+import { signedArea } from './offset';
+
+// Fewer points than this are too coarse to tell a circle from a polygon
+const MIN_POINTS = 8;
+
+/**
+ * The circle or ellipse that a closed contour traces, or null. The candidate comes from the
+ * area moments of the ring (centroid, and the axes from the covariance), and is accepted when
+ * every point lies within `tolerance` of it.
+ */
+export function detectPrimitive(points: number[][], tolerance: number): Primitive | null {
+  const n = points.length;
+  if (n < MIN_POINTS) return null;
+
+  let a = 0, cx = 0, cy = 0, ixx = 0, iyy = 0, ixy = 0;
+  for (let i = 0; i < n; i++) {
+    const [x1, y1] = points[i], [x2, y2] = points[(i + 1) % n];
+    const cross = x1 * y2 - x2 * y1;
+    a += cross / 2;
+    cx += ((x1 + x2) * cross) / 6;
+    cy += ((y1 + y2) * cross) / 6;
+    ixx += ((x1 * x1 + x1 * x2 + x2 * x2) * cross) / 12;
+    iyy += ((y1 * y1 + y1 * y2 + y2 * y2) * cross) / 12;
+    ixy += ((x1 * y2 + 2 * x1 * y1 + 2 * x2 * y2 + x2 * y1) * cross) / 24;
+  }
+  if (Math.abs(a) < 1e-9) return null;
+  cx /= a;
+  cy /= a;
+  const sxx = ixx / a - cx * cx, syy = iyy / a - cy * cy, sxy = ixy / a - cx * cy;
+
+  // A filled ellipse with semi-axes rx, ry has variances rx²/4 and ry²/4 along its axes
+  const mean = (sxx + syy) / 2, spread = Math.hypot((sxx - syy) / 2, sxy);
+  const rx = 2 * Math.sqrt(Math.max(0, mean + spread)), ry = 2 * Math.sqrt(Math.max(0, mean - spread));
+  if (ry < tolerance) return null;
+
+  if (rx - ry <= tolerance) {
+    const r = (rx + ry) / 2;
+    return points.every(([x, y]) => Math.abs(Math.hypot(x - cx, y - cy) - r) <= tolerance)
+      ? { kind: 'circle', cx, cy, r }
+      : null;
+  }
+
+  const rotation = Math.atan2(2 * sxy, sxx - syy) / 2;
+  const cos = Math.cos(rotation), sin = Math.sin(rotation);
+  const fits = points.every(([x, y]) => {
+    const dx = x - cx, dy = y - cy;
+    const u = dx * cos + dy * sin, v = dy * cos - dx * sin;
+    const rho = Math.hypot(u / rx, v / ry);
+    const d = Math.hypot(dx, dy);
+    // Radial distance to the ellipse, close to the true distance for moderate eccentricity
+    return rho > 0 && Math.abs(d - d / rho) <= tolerance;
+  });
+  return fits ? { kind: 'ellipse', cx, cy, rx, ry, rotation } : null;
+}
+
+/**
+ * Marks the closed contours that are circles or ellipses within the curve fit tolerance.
+ * Centre lines and everything else are left as they are.
+ */
+export function detectPrimitives(paths: CutPath[], fit: CurveFitSettings): CutPath[] {
+  if (!fit.primitives) return paths;
+  return paths.map(path => {
+    if (!path.closed) return path;
+    const primitive = detectPrimitive(path.points, fitTolerance(path.points, fit.tolerance));
+    return primitive ? { ...path, primitive } : path;
+  });
+}
+
+/**
+ * A primitive grown by `delta` (negative shrinks it). Only circles stay what they are; the
+ * offset of an ellipse is no ellipse, so that gives null.
+ */
+export function offsetPrimitive(primitive: Primitive, delta: number): Primitive | null {
+  if (primitive.kind !== 'circle' || primitive.r + delta <= 0) return null;
+  return { ...primitive, r: primitive.r + delta };
+}
+
+/**
+ * Samples a primitive as a closed polyline every `resolution` document units, starting
+ * closest to the first point of `ring` and running in the same direction, so it can stand in
+ * for the traced ring.
+ */
+export function samplePrimitive(primitive: Primitive, ring: number[][], resolution = 0.5): number[][] {
+  const { cx, cy } = primitive;
+  const rx = primitive.kind === 'circle' ? primitive.r : primitive.rx;
+  const ry = primitive.kind === 'circle' ? primitive.r : primitive.ry;
+  const rotation = primitive.kind === 'circle' ? 0 : primitive.rotation;
+  const cos = Math.cos(rotation), sin = Math.sin(rotation);
+
+  const [sx, sy] = ring.length ? ring[0] : [cx + rx, cy];
+  const du = (sx - cx) * cos + (sy - cy) * sin, dv = (sy - cy) * cos - (sx - cx) * sin;
+  const t0 = Math.atan2(dv / ry, du / rx);
+  const dir = signedArea(ring) < 0 ? -1 : 1;
+  // Ramanujan's approximation of the perimeter
+  const h = ((rx - ry) / (rx + ry)) ** 2;
+  const perimeter = Math.PI * (rx + ry) * (1 + (3 * h) / (10 + Math.sqrt(4 - 3 * h)));
+  const steps = Math.max(24, Math.ceil(perimeter / resolution));
+
+  const out: number[][] = [];
+  for (let k = 0; k < steps; k++) {
+    const t = t0 + (dir * 2 * Math.PI * k) / steps;
+    const u = rx * Math.cos(t), v = ry * Math.sin(t);
+    out.push([cx + u * cos - v * sin, cy + u * sin + v * cos]);
+  }
+  return out;
+}
+
+/**
+ * SVG path data for a primitive as two half arcs, for primitives that share a compound path
+ * with other rings.
+ */
+export function primitivePathData(primitive: Primitive): string {
+  const f = (n: number) => n.toFixed(2);
+  const rx = primitive.kind === 'circle' ? primitive.r : primitive.rx;
+  const ry = primitive.kind === 'circle' ? primitive.r : primitive.ry;
+  const rotation = primitive.kind === 'circle' ? 0 : primitive.rotation;
+  const ex = rx * Math.cos(rotation), ey = rx * Math.sin(rotation);
+  const arc = `A ${f(rx)} ${f(ry)} ${f((rotation * 180) / Math.PI)} 1 1`;
+  const { cx, cy } = primitive;
+  return `M ${f(cx + ex)} ${f(cy + ey)} ${arc} ${f(cx - ex)} ${f(cy - ey)} ${arc} ${f(cx + ex)} ${f(cy + ey)} Z`;
+}
+
+/**
+ * A primitive as its own SVG element, `<circle>` or `<ellipse>`, without a closing tag.
+ */
+export function primitiveElement(primitive: Primitive): string {
+  const f = (n: number) => n.toFixed(2);
+  if (primitive.kind === 'circle') return `<circle cx="${f(primitive.cx)}" cy="${f(primitive.cy)}" r="${f(primitive.r)}"`;
+  const { cx, cy, rx, ry, rotation } = primitive;
+  return `<ellipse cx="${f(cx)}" cy="${f(cy)}" rx="${f(rx)}" ry="${f(ry)}" transform="rotate(${f((rotation * 180) / Math.PI)} ${f(cx)} ${f(cy)})"`;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { ManualBridge } from '../types';
+import { buildEdgeField } from './marchingsquares';
+import { cloneMask, diffRect, maskFromTest } from './mask';
+import { bridgeMask, createContourReuse, eraseStroke, extractContourHierarchy } from './processing';
+
+describe('bridgeMask', () => {
+  // A dark bar 10 pixels tall across the whole width
+  const w = 60, h = 30;
+  const bar = () => maskFromTest(w, h, idx => idx >= 10 * w && idx < 20 * w);
+  const place = (bridge: Partial<ManualBridge>) => {
+    const mask = bar();
+    const { report } = bridgeMask(mask, w, h, {
+      stencilMode: false,
+      bridgeWidth: 1,
+      bridgeCount: 0,
+      manualBridges: [{ id: 'b', x: 30, y: 15, angle: null, width: null, ...bridge }]
+    });
+    return { mask, bridge: report.bridges[0] };
+  };
+
+  it('takes the shortest way across without an angle', () => {
+    const { mask, bridge } = place({});
+    expect(bridge).toMatchObject({ kind: 'manual', id: 'b', width: 1 });
+    // Steeper directions tie with the vertical one on the pixel grid
+    expect([bridge.y1, bridge.y2].sort((a, b) => a - b)).toEqual([9, 20]);
+    expect(Math.abs(bridge.x2 - bridge.x1)).toBeLessThanOrEqual(3);
+    expect(mask.data[15 * w + 30]).toBe(0);
+    expect(mask.data[15 * w + 20]).toBe(1);
+  });
+
+  it('follows the angle and width of the bridge', () => {
+    const { mask, bridge } = place({ angle: 45, width: 3 });
+    expect(bridge.width).toBe(3);
+    // 45 degrees down to the right from the centre until the bar ends
+    expect(Math.abs(bridge.x2 - bridge.x1)).toBe(Math.abs(bridge.y2 - bridge.y1));
+    expect(Math.abs(bridge.x2 - bridge.x1)).toBeGreaterThan(10);
+    for (let dx = -3; dx <= 3; dx++) expect(mask.data[15 * w + 30 + dx]).toBe(0);
+    expect(mask.data[15 * w + 40]).toBe(1);
+  });
+});
+
+describe('extractContourHierarchy with reuse', () => {
+  // Rings with holes, islands in the holes and a few loose blobs
+  const w = 80, h = 60;
+  const design = () => maskFromTest(w, h, idx => {
+    const x = idx % w, y = Math.floor(idx / w);
+    const ring = Math.max(Math.abs(x - 20), Math.abs(y - 20));
+    const disc = Math.hypot(x - 55, y - 35);
+    return (ring >= 6 && ring < 14) || ring < 2 || (disc >= 5 && disc < 15) || (x > 10 && x < 70 && y > 50 && y < 55);
+  });
+
+  const strokes = [
+    // Through the wall of the square ring, joining its hole to the sheet
+    { points: [{ x: 20, y: 0 }, { x: 20, y: 16 }], size: 1.5 },
+    // Across the bar, splitting it in two
+    { points: [{ x: 40, y: 48 }, { x: 40, y: 57 }], size: 2 },
+    // A dot inside the disc's wall, making a new hole
+    { points: [{ x: 55, y: 25 }], size: 1 },
+    // Over the island in the square's hole
+    { points: [{ x: 18, y: 20 }, { x: 22, y: 20 }], size: 2 }
+  ];
+
+  const compare = (withEdges: boolean) => {
+    const mask = design();
+    const edgesOf = () => withEdges ? buildEdgeField(mask, w, h, null, null) : undefined;
+    const reuse = createContourReuse();
+    let edges = edgesOf();
+    extractContourHierarchy(mask, w, h, w, h, edges, reuse);
+    for (const stroke of strokes) {
+      const before = cloneMask(mask);
+      eraseStroke(mask, stroke, w, h);
+      edges = edgesOf();
+      reuse.dirty = diffRect(before.data, mask.data, w, h);
+      expect(reuse.dirty).not.toBeNull();
+      const incremental = extractContourHierarchy(mask, w, h, w, h, edges, reuse);
+      expect(incremental).toEqual(extractContourHierarchy(mask, w, h, w, h, edges));
+    }
+  };
+
+  it('matches a full extraction after every eraser stroke', () => compare(false));
+
+  it('matches a full extraction of sub-pixel outlines too', () => compare(true));
+
+  it('returns the same rings when nothing changed', () => {
+    const mask = design();
+    const reuse = createContourReuse();
+    const first = extractContourHierarchy(mask, w, h, w, h, undefined, reuse);
+    reuse.dirty = null;
+    expect(extractContourHierarchy(mask, w, h, w, h, undefined, reuse)).toEqual(first);
+  });
+});
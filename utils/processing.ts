@@ -1,5 +1,9 @@
 
-import { MaskGrid } from '../types';
+import { MaskGrid, MaskRect, ContourNode, CutPath, TracedShape, TraceMode, BridgeReport, BridgeSegment, ManualBridge, CurveFitSettings } from '../types';
+import { extractCenterlines } from './centerline';
+import { FitSegment, FittedPath, fitContour, fittedPathData, flattenFitted } from './curvefit';
+import { cloneMask, unionRect } from './mask';
+import { traceSubpixelContour } from './marchingsquares';
 
 // --- Vector Math Helpers ---
 const sub = (a: number[], b: number[]) => [a[0] - b[0], a[1] - b[1]];
@@ -36,33 +40,47 @@ export function simplifyPolyline(points: number[][], epsilon: number): number[][
   }
 }
 
-export function smoothContour(points: number[][], iterations = 1): number[][] {
+export function smoothContour(points: number[][], iterations = 1, closed = true): number[][] {
   if (!points || points.length < 3 || iterations <= 0) return points;
   let pts = points.map(p => [p[0], p[1]]);
   for (let it = 0; it < iterations; it++) {
     const next = [];
     const L = pts.length;
-    for (let i = 0; i < L; i++) {
+    // Open paths keep their end points and have no wrap-around edge
+    if (!closed) next.push(pts[0]);
+    for (let i = 0; i < (closed ? L : L - 1); i++) {
       const p0 = pts[i];
       const p1 = pts[(i + 1) % L];
       next.push([0.75 * p0[0] + 0.25 * p1[0], 0.75 * p0[1] + 0.25 * p1[1]]);
       next.push([0.25 * p0[0] + 0.75 * p1[0], 0.25 * p0[1] + 0.75 * p1[1]]);
     }
+    if (!closed) next.push(pts[L - 1]);
     pts = next;
   }
   return pts;
 }
 
+/**
+ * Neighbouring points of segment i (p1 -> p2). Closed paths wrap around, open paths clamp at the ends.
+ */
+function segmentPoints(processed: number[][], i: number, closed: boolean) {
+  const L = processed.length;
+  const at = (k: number) => processed[closed ? (k + L) % L : Math.max(0, Math.min(L - 1, k))];
+  return [at(i - 1), at(i), at(i + 1), at(i + 2)];
+}
+
 /**
  * Generates a high-resolution list of points that follows the cubic Bezier curves
  * calculated from the input points. This ensures DXF output matches the SVG preview.
+ * With corner fitting the curves come from fitContour instead, sampled the same way.
  */
-export function getSmoothedContourPoints(points: number[][], maxPoints = 2000, vectorSmoothing = 0): number[][] {
-  if (!points || points.length < 3) return points;
+export function getSmoothedContourPoints(points: number[][], maxPoints = 2000, vectorSmoothing = 0, closed = true, fit?: CurveFitSettings): number[][] {
+  if (!points || points.length < (closed ? 3 : 2)) return points;
+  if (fit?.mode === 'corners') return flattenFitted(fitContour(points, closed, fit));
   let processed = points;
   
   // Phase 1: Basic Smoothing (Chaikin) - matches buildBezierPath
-  if (vectorSmoothing > 0) processed = smoothContour(points, 1);
+  if (vectorSmoothing > 0) processed = smoothContour(points, 1, closed);
   
   // Phase 2: Simplification - matches buildBezierPath
   const epsilon = vectorSmoothing === 0 ? 0.4 : 0.8 + Math.pow(vectorSmoothing, 1.5) * 0.4;
@@ -71,10 +89,10 @@ export function getSmoothedContourPoints(points: number[][], maxPoints = 2000, v
   // Phase 3: Decimation - matches buildBezierPath
   if (processed.length > maxPoints) {
       const step = Math.ceil(processed.length / maxPoints);
-      processed = processed.filter((_, i) => i % step === 0);
+      processed = processed.filter((_, i, arr) => i % step === 0 || (!closed && i === arr.length - 1));
   }
   
-  if (processed.length < 3) return processed;
+  if (processed.length < (closed ? 3 : 2)) return processed;
 
   const interpolatedPoints: number[][] = [];
   const L = processed.length;
@@ -94,11 +112,8 @@ export function getSmoothedContourPoints(points: number[][], maxPoints = 2000, v
     ];
   };
 
-  for (let i = 0; i < L; i++) {
-    const p0 = processed[(i - 1 + L) % L];
-    const p1 = processed[i];
-    const p2 = processed[(i + 1) % L];
-    const p3 = processed[(i + 2) % L];
+  for (let i = 0; i < (closed ? L : L - 1); i++) {
+    const [p0, p1, p2, p3] = segmentPoints(processed, i, closed);
 
     const dist12 = dist(p1, p2);
     const tan1 = norm(sub(p2, p0));
@@ -122,36 +137,47 @@ export function getSmoothedContourPoints(points: number[][], maxPoints = 2000, v
         interpolatedPoints.push(cubicBezier(p1, cp1, cp2, p2, t));
     }
   }
+  if (!closed) interpolatedPoints.push(processed[L - 1]);
   
   return interpolatedPoints;
 }
 
-export function buildBezierPath(points: number[][], maxPoints = 2000, vectorSmoothing = 0): string {
-  if (!points || points.length < 3) return "";
+export function buildBezierPath(points: number[][], maxPoints = 2000, vectorSmoothing = 0, closed = true, fit?: CurveFitSettings): string {
+  const curves = getBezierCurves(points, maxPoints, vectorSmoothing, closed, fit);
+  return curves ? fittedPathData(curves) : "";
+}
+
+/**
+ * The curves behind buildBezierPath as control points, for formats with curves of their own.
+ * Null when there are too few points left for a path.
+ */
+export function getBezierCurves(points: number[][], maxPoints = 2000, vectorSmoothing = 0, closed = true, fit?: CurveFitSettings): FittedPath | null {
+  if (!points || points.length < (closed ? 3 : 2)) return null;
+  if (fit?.mode === 'corners') return fitContour(points, closed, fit);
   let processed = points;
-  if (vectorSmoothing > 0) processed = smoothContour(points, 1);
+  if (vectorSmoothing > 0) processed = smoothContour(points, 1, closed);
   const epsilon = vectorSmoothing === 0 ? 0.4 : 0.8 + Math.pow(vectorSmoothing, 1.5) * 0.4;
   processed = simplifyPolyline(processed, epsilon);
   if (processed.length > maxPoints) {
       const step = Math.ceil(processed.length / maxPoints);
-      processed = processed.filter((_, i) => i % step === 0);
+      processed = processed.filter((_, i, arr) => i % step === 0 || (!closed && i === arr.length - 1));
   }
-  if (processed.length < 3) return "";
-  let d = `M ${processed[0][0].toFixed(2)} ${processed[0][1].toFixed(2)}`;
+  if (processed.length < (closed ? 3 : 2)) return null;
+  const segments: FitSegment[] = [];
   const L = processed.length;
   const baseAlpha = vectorSmoothing === 0 ? 0 : 0.12 + (vectorSmoothing * 0.02);
-  for (let i = 0; i < L; i++) {
-    const p0 = processed[(i - 1 + L) % L];
-    const p1 = processed[i];
-    const p2 = processed[(i + 1) % L];
-    const p3 = processed[(i + 2) % L];
+  for (let i = 0; i < (closed ? L : L - 1); i++) {
+    const [p0, p1, p2, p3] = segmentPoints(processed, i, closed);
     const dist12 = dist(p1, p2);
     const tan1 = norm(sub(p2, p0));
     const tan2 = norm(sub(p3, p1));
-    d += ` C ${(p1[0] + tan1[0] * dist12 * baseAlpha).toFixed(2)} ${(p1[1] + tan1[1] * dist12 * baseAlpha).toFixed(2)}, ${(p2[0] - tan2[0] * dist12 * baseAlpha).toFixed(2)} ${(p2[1] - tan2[1] * dist12 * baseAlpha).toFixed(2)}, ${p2[0].toFixed(2)} ${p2[1].toFixed(2)}`;
+    segments.push({
+      c1: [p1[0] + tan1[0] * dist12 * baseAlpha, p1[1] + tan1[1] * dist12 * baseAlpha],
+      c2: [p2[0] - tan2[0] * dist12 * baseAlpha, p2[1] - tan2[1] * dist12 * baseAlpha],
+      to: p2
+    });
   }
-  d += " Z";
-  return d;
+  return { start: processed[0], segments, closed };
 }
 
 export function extractContourFromLabel(labels: Int32Array, labelId: number, startX: number, startY: number, w: number, h: number, docWidth: number, docHeight: number): number[][] {
@@ -177,50 +203,214 @@ export function extractContourFromLabel(labels: Int32Array, labelId: number, sta
   return contour.map(([px, py]) => [(px + 0.5) * sx, (py + 0.5) * sy]);
 }
 
-export function extractAllContours(mask: MaskGrid, w: number, h: number, docWidth: number, docHeight: number): number[][][] {
-  if (!mask) return [];
-  const labels = new Int32Array(w * h).fill(-1);
-  let currentLabel = 0;
-  const contours: number[][][] = [];
+const NEIGHBORS_4 = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const NEIGHBORS_8 = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+// One connected region found by the labelling in extractContourHierarchy
+interface MaskComponent {
+  start: number; // Index of its top-left pixel, the first in raster order
+  foreground: boolean;
+  size: number;
+  touchesBorder: boolean;
+  bounds: MaskRect;
+  points: number[][] | null; // Its ring once traced
+}
 
-  for (let y = 0; y < h; y++) {
-    for (let x = 0; x < w; x++) {
-      if (mask[y][x] && labels[y * w + x] === -1) {
-        const q: [number, number][] = [[x, y]];
-        labels[y * w + x] = currentLabel;
-        let head = 0;
-        while (head < q.length) {
-          const [cx, cy] = q[head++];
-          for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+// The labelling of an earlier extraction, so only the region that changed since is labelled and traced again
+export interface ContourReuse {
+  labels: Int32Array | null; // Component per pixel; null before the first extraction
+  components: (MaskComponent | null)[]; // By label; null once relabelled
+  dirty: MaskRect | null; // Pixels that changed since, in the mask or the edge field; null when none did
+}
+
+export function createContourReuse(): ContourReuse {
+  return { labels: null, components: [], dirty: null };
+}
+
+/**
+ * Traces every foreground component and every enclosed background region (hole) of the mask.
+ * Foreground is 4-connected and background 8-connected, so a hole always has exactly one
+ * enclosing component. Nodes are returned in raster order, which puts parents before children.
+ * With an edge field (see buildEdgeField) the rings are sub-pixel marching squares outlines,
+ * otherwise they run through the boundary pixel centres.
+ *
+ * With `reuse` from an extraction of the same-sized mask, only the components touching
+ * `reuse.dirty` are labelled and traced again. Everything that can join them lies within the
+ * bounds of the old components touching it, except the background reaching the sheet edge,
+ * which is the one region that may run out of that window. Its pixels outside keep a stale
+ * label, which is fine as it never gets a ring or passes on a parent.
+ */
+export function extractContourHierarchy(mask: MaskGrid, w: number, h: number, docWidth: number, docHeight: number, edges?: Uint8Array, reuse?: ContourReuse): ContourNode[] {
+  if (!mask) return [];
+  const state = reuse ?? createContourReuse();
+  const data = mask.data;
+  const all: MaskRect = { x0: 0, y0: 0, x1: w, y1: h };
+
+  // Pixels to label again and the region their components are confined to
+  let seeds: MaskRect | null = all, region = all;
+  // Every edit leaves relabelled components behind; once they outnumber the live ones, start over
+  const live = state.components.reduce((n, component) => n + (component ? 1 : 0), 0);
+  if (state.labels && state.labels.length === w * h && state.components.length <= 2 * live + 1024) {
+    seeds = state.dirty && { x0: Math.max(0, state.dirty.x0 - 1), y0: Math.max(0, state.dirty.y0 - 1), x1: Math.min(w, state.dirty.x1 + 1), y1: Math.min(h, state.dirty.y1 + 1) };
+    if (seeds) {
+      region = seeds;
+      for (let y = seeds.y0; y < seeds.y1; y++) {
+        for (let x = seeds.x0; x < seeds.x1; x++) {
+          const component = state.components[state.labels[y * w + x]];
+          if (component && (component.foreground || !component.touchesBorder)) region = unionRect(region, component.bounds)!;
+        }
+      }
+      // A large change is cheaper to label from scratch than to track
+      if ((region.x1 - region.x0) * (region.y1 - region.y0) > (w * h) / 2) seeds = region = all;
+    }
+  }
+  if (seeds === all) {
+    state.labels = new Int32Array(w * h).fill(-1);
+    state.components = [];
+  }
+  const labels = state.labels!;
+  const components = state.components;
+  const firstLabel = components.length;
+
+  if (seeds) {
+    const queue = new Int32Array((region.x1 - region.x0) * (region.y1 - region.y0));
+    for (let y = seeds.y0; y < seeds.y1; y++) {
+      for (let x = seeds.x0; x < seeds.x1; x++) {
+        if (labels[y * w + x] >= firstLabel) continue;
+        if (labels[y * w + x] >= 0) components[labels[y * w + x]] = null;
+
+        const label = components.length;
+        const value = data[y * w + x];
+        const foreground = value === 1;
+        const neighbors = foreground ? NEIGHBORS_4 : NEIGHBORS_8;
+        let touchesBorder = false;
+        let start = y * w + x, minX = x, maxX = x, minY = y, maxY = y;
+        let head = 0, tail = 0;
+        labels[y * w + x] = label;
+        queue[tail++] = y * w + x;
+        while (head < tail) {
+          const idx = queue[head++];
+          const cx = idx % w, cy = (idx - cx) / w;
+          if (cx === 0 || cy === 0 || cx === w - 1 || cy === h - 1) touchesBorder = true;
+          if (idx < start) start = idx;
+          if (cx < minX) minX = cx;
+          if (cx > maxX) maxX = cx;
+          if (cy < minY) minY = cy;
+          if (cy > maxY) maxY = cy;
+          for (const [dx, dy] of neighbors) {
             const nx = cx + dx, ny = cy + dy;
-            if (nx >= 0 && ny >= 0 && nx < w && ny < h && mask[ny][nx] && labels[ny * w + nx] === -1) {
-              labels[ny * w + nx] = currentLabel;
-              q.push([nx, ny]);
+            if (nx < 0 || ny < 0 || nx >= w || ny >= h || data[ny * w + nx] !== value) continue;
+            const n = ny * w + nx;
+            if (nx < region.x0 || ny < region.y0 || nx >= region.x1 || ny >= region.y1) {
+              // Only the background at the sheet edge reaches out of the region; anything else means the old labels were off
+              if (foreground) {
+                state.labels = null;
+                return extractContourHierarchy(mask, w, h, docWidth, docHeight, edges, state);
+              }
+              touchesBorder = true;
+            } else if (labels[n] < firstLabel) {
+              if (labels[n] >= 0) components[labels[n]] = null;
+              labels[n] = label;
+              queue[tail++] = n;
             }
           }
         }
-        // PERFORMANCE: Sla kleine ruis-pixels over (minder dan 5 pixels aaneengesloten)
-        if (q.length > 4) {
-          contours.push(extractContourFromLabel(labels, currentLabel, x, y, w, h, docWidth, docHeight));
-        }
-        currentLabel++;
+        components.push({ start, foreground, size: tail, touchesBorder, bounds: { x0: minX, y0: minY, x1: maxX + 1, y1: maxY + 1 }, points: null });
       }
     }
   }
-  return contours;
+
+  const order: number[] = [];
+  components.forEach((component, label) => { if (component) order.push(label); });
+  if (seeds !== all) order.sort((a, b) => components[a]!.start - components[b]!.start);
+
+  // Node index that children of a component attach to: its own node, or the nearest emitted
+  // ancestor. Stale labels are sheet background, which is -1 as well.
+  const anchors = new Int32Array(components.length).fill(-1);
+  const nodes: ContourNode[] = [];
+  for (const label of order) {
+    const component = components[label]!;
+    const x = component.start % w, y = (component.start - x) / w;
+    // (x, y) is the component's top-left pixel, so the pixel above it belongs to the enclosing region
+    const parent = y > 0 ? anchors[labels[component.start - w]] : -1;
+    const hole = !component.foreground;
+    // PERFORMANCE: Sla kleine ruis-pixels over (minder dan 5 pixels aaneengesloten)
+    if (component.size > 4 && (component.foreground || !component.touchesBorder)) {
+      component.points ??= edges
+        ? traceSubpixelContour(labels, label, x, y, w, h, edges, hole, docWidth, docHeight)
+        : extractContourFromLabel(labels, label, x, y, w, h, docWidth, docHeight);
+      anchors[label] = nodes.length;
+      nodes.push({ points: component.points, hole, parent });
+    } else {
+      // Background connected to the sheet edge is open space, not part of any shape
+      anchors[label] = hole && component.touchesBorder ? -1 : parent;
+    }
+  }
+  state.dirty = null;
+  return nodes;
+}
+
+/**
+ * Flat list of all contours, outer boundaries and holes alike.
+ */
+export function extractAllContours(mask: MaskGrid, w: number, h: number, docWidth: number, docHeight: number): number[][][] {
+  return extractContourHierarchy(mask, w, h, docWidth, docHeight).map(node => node.points);
+}
+
+/**
+ * Groups each outer contour with its direct holes, giving the rings of one even-odd compound shape.
+ * Islands inside a hole start a compound shape of their own. Rings keep their order in `paths`
+ * and a shape takes the place of its outer contour, so a cut order with holes first carries over.
+ */
+export function groupCompoundShapes(paths: CutPath[]): TracedShape[] {
+  const membersOf = new Map<number, CutPath[]>();
+  paths.forEach((path, i) => {
+    const key = path.hole ? path.parent : i;
+    if (!membersOf.has(key)) membersOf.set(key, []);
+    membersOf.get(key)!.push(path);
+  });
+  return paths.flatMap((path, i) => {
+    if (path.hole) return [];
+    const members = membersOf.get(i)!;
+    const shape: TracedShape = { rings: members.map(m => m.points), closed: path.closed };
+    if (members.some(m => m.primitive)) shape.primitives = members.map(m => m.primitive);
+    return [shape];
+  });
+}
+
+/**
+ * Traces the mask in the requested mode as individual paths: outline rings with their
+ * hierarchy (sub-pixel when the mask comes with an edge field), or open centre lines.
+ * `reuse` only applies to the outlines, see extractContourHierarchy.
+ */
+export function traceCutPaths(mask: MaskGrid, w: number, h: number, docWidth: number, docHeight: number, traceMode: TraceMode, edges?: Uint8Array, reuse?: ContourReuse): CutPath[] {
+  if (traceMode === 'centerline') {
+    return extractCenterlines(mask, w, h, docWidth, docHeight).map(path => ({ ...path, hole: false, parent: -1 }));
+  }
+  return extractContourHierarchy(mask, w, h, docWidth, docHeight, edges, reuse).map(node => ({ ...node, closed: true }));
+}
+
+/**
+ * Traces the mask in the requested mode: compound outline shapes, or open centre lines.
+ */
+export function traceShapes(mask: MaskGrid, w: number, h: number, docWidth: number, docHeight: number, traceMode: TraceMode): TracedShape[] {
+  return groupCompoundShapes(traceCutPaths(mask, w, h, docWidth, docHeight, traceMode));
 }
 
 export function smoothMask(mask: MaskGrid, w: number, h: number, iterations: number) {
+  const data = mask.data;
+  // One scratch buffer for all iterations; the border row and column stay light
+  const next = new Uint8Array(w * h);
   for (let it = 0; it < iterations; it++) {
-    const next: boolean[][] = Array.from({ length: h }, () => Array(w).fill(false));
     for (let y = 1; y < h - 1; y++) {
+      const row = y * w;
       for (let x = 1; x < w - 1; x++) {
-        let cnt = 0;
-        for (let dy = -1; dy <= 1; dy++) for (let dx = -1; dx <= 1; dx++) if (mask[y + dy][x + dx]) cnt++;
-        next[y][x] = cnt >= 5;
+        const up = row - w + x, mid = row + x, down = row + w + x;
+        const cnt = data[up - 1] + data[up] + data[up + 1] + data[mid - 1] + data[mid] + data[mid + 1] + data[down - 1] + data[down] + data[down + 1];
+        next[mid] = cnt >= 5 ? 1 : 0;
       }
     }
-    for (let y = 0; y < h; y++) for (let x = 0; x < w; x++) mask[y][x] = next[y][x];
+    data.set(next);
   }
 }
 
@@ -241,7 +431,7 @@ function drawThickLine(mask: MaskGrid, x1: number, y1: number, x2: number, y2: n
         if (rx * rx + ry * ry <= rSq) {
           const ox = px + rx, oy = py + ry;
           if (ox >= 0 && oy >= 0 && ox < w && oy < h) {
-            mask[oy][ox] = false;
+            mask.data[oy * w + ox] = 0;
           }
         }
       }
@@ -249,47 +439,100 @@ function drawThickLine(mask: MaskGrid, x1: number, y1: number, x2: number, y2: n
   }
 }
 
-export function postProcessMask(mask: MaskGrid, w: number, h: number, settings: { 
-  stencilMode: boolean, 
-  bridgeWidth: number, 
-  bridgeCount: number, 
-  manualBridges?: {x: number, y: number}[],
-  erasedPaths?: { points: {x: number, y: number}[], size: number }[]
-}) {
-  // 1. Handmatige gum-paden toepassen
-  if (settings.erasedPaths) {
-    settings.erasedPaths.forEach(path => {
-      if (path.points.length === 0) return;
-      if (path.points.length === 1) {
-        drawThickLine(mask, path.points[0].x, path.points[0].y, path.points[0].x, path.points[0].y, path.size, w, h);
-      } else {
-        for (let i = 0; i < path.points.length - 1; i++) {
-          drawThickLine(mask, path.points[i].x, path.points[i].y, path.points[i + 1].x, path.points[i + 1].y, path.size, w, h);
-        }
-      }
-    });
+// One eraser stroke, mask pixels
+export interface EraseStroke {
+  points: { x: number; y: number }[];
+  size: number;
+}
+
+interface PostProcessSettings {
+  stencilMode: boolean;
+  bridgeWidth: number;
+  bridgeCount: number;
+  manualBridges?: ManualBridge[];
+  lockedBridges?: BridgeSegment[];
+  removedBridges?: {x: number, y: number}[];
+  erasedPaths?: EraseStroke[];
+  vectorBridges?: boolean; // Bridges are only planned and reported; they are cut out of the vectors later
+}
+
+/**
+ * Makes the pixels under one eraser stroke light.
+ */
+export function eraseStroke(mask: MaskGrid, path: EraseStroke, w: number, h: number) {
+  if (path.points.length === 0) return;
+  if (path.points.length === 1) {
+    drawThickLine(mask, path.points[0].x, path.points[0].y, path.points[0].x, path.points[0].y, path.size, w, h);
+    return;
+  }
+  for (let i = 0; i < path.points.length - 1; i++) {
+    drawThickLine(mask, path.points[i].x, path.points[i].y, path.points[i + 1].x, path.points[i + 1].y, path.size, w, h);
   }
+}
+
+/**
+ * The rectangle eraseStroke can change, clipped to the mask; null for an empty stroke.
+ */
+export function strokeRect(path: EraseStroke, w: number, h: number): MaskRect | null {
+  if (path.points.length === 0) return null;
+  const reach = Math.ceil(path.size);
+  const xs = path.points.map(p => p.x), ys = path.points.map(p => p.y);
+  return {
+    x0: Math.max(0, Math.floor(Math.min(...xs)) - reach),
+    y0: Math.max(0, Math.floor(Math.min(...ys)) - reach),
+    x1: Math.min(w, Math.ceil(Math.max(...xs)) + reach + 1),
+    y1: Math.min(h, Math.ceil(Math.max(...ys)) + reach + 1)
+  };
+}
+
+/**
+ * Applies the eraser paths and bridges to a thresholded mask, see bridgeMask.
+ */
+export function postProcessMask(mask: MaskGrid, w: number, h: number, settings: PostProcessSettings): { report: BridgeReport; islandMap: Int32Array | null } {
+  // 1. Handmatige gum-paden toepassen
+  settings.erasedPaths?.forEach(path => eraseStroke(mask, path, w, h));
+  return bridgeMask(mask, w, h, settings);
+}
 
+/**
+ * Applies the manual and locked bridges to a mask. In stencil mode every light
+ * region that does not reach the sheet edge (an island that would fall out) gets up to
+ * `bridgeCount` automatic bridges, carved along the shortest way to already connected sheet.
+ * Returns what was placed, in mask pixels, and per pixel the index of the island it belongs to (-1 elsewhere).
+ */
+export function bridgeMask(mask: MaskGrid, w: number, h: number, settings: PostProcessSettings): { report: BridgeReport; islandMap: Int32Array | null } {
+  const report: BridgeReport = { islands: [], bridges: [] };
+
+  // Vector bridges are planned on a copy, so the mask keeps its islands unconnected
+  const target = settings.vectorBridges ? cloneMask(mask) : mask;
+  const islandMap = placeBridges(target, w, h, settings, report);
+  return { report, islandMap };
+}
+
+function placeBridges(mask: MaskGrid, w: number, h: number, settings: PostProcessSettings, report: BridgeReport): Int32Array | null {
   // 2. Handmatige bruggen toepassen
   if (settings.manualBridges && settings.manualBridges.length > 0) {
-    const bw = Math.max(1, settings.bridgeWidth);
-    
     settings.manualBridges.forEach(bridge => {
       const bx = Math.round(bridge.x);
       const by = Math.round(bridge.y);
       if (bx < 0 || bx >= w || by < 0 || by >= h) return;
+      const bw = Math.max(1, bridge.width ?? settings.bridgeWidth);
 
-      if (!mask[by][bx]) {
+      if (!mask.data[by * w + bx]) {
         drawThickLine(mask, bx, by, bx, by, bw, w, h);
+        report.bridges.push({ kind: 'manual', x1: bx, y1: by, x2: bx, y2: by, width: bw, island: -1, id: bridge.id });
         return;
       }
 
       let minTotalDist = Infinity;
       let bestP1 = [bx, by];
       let bestP2 = [bx, by];
+      // An explicit angle is the only direction tried
+      const angles = bridge.angle === null
+        ? Array.from({ length: 12 }, (_, i) => (i * Math.PI) / 12)
+        : [(bridge.angle * Math.PI) / 180];
 
-      for (let i = 0; i < 12; i++) {
-        const angle = (i * Math.PI) / 12;
+      for (const angle of angles) {
         const dx = Math.cos(angle);
         const dy = Math.sin(angle);
 
@@ -299,7 +542,7 @@ export function postProcessMask(mask: MaskGrid, w: number, h: number, settings:
           const tx = Math.round(bx + dx * d1);
           const ty = Math.round(by + dy * d1);
           if (tx < 0 || tx >= w || ty < 0 || ty >= h) break;
-          if (!mask[ty][tx]) { p1 = [tx, ty]; break; }
+          if (!mask.data[ty * w + tx]) { p1 = [tx, ty]; break; }
           d1++;
           if (d1 > 200) break;
         }
@@ -310,7 +553,7 @@ export function postProcessMask(mask: MaskGrid, w: number, h: number, settings:
           const tx = Math.round(bx - dx * d2);
           const ty = Math.round(by - dy * d2);
           if (tx < 0 || tx >= w || ty < 0 || ty >= h) break;
-          if (!mask[ty][tx]) { p2 = [tx, ty]; break; }
+          if (!mask.data[ty * w + tx]) { p2 = [tx, ty]; break; }
           d2++;
           if (d2 > 200) break;
         }
@@ -323,20 +566,19 @@ export function postProcessMask(mask: MaskGrid, w: number, h: number, settings:
         }
       }
       drawThickLine(mask, bestP1[0], bestP1[1], bestP2[0], bestP2[1], bw, w, h);
+      report.bridges.push({ kind: 'manual', x1: bestP1[0], y1: bestP1[1], x2: bestP2[0], y2: bestP2[1], width: bw, island: -1, id: bridge.id });
     });
   }
 
-  if (!settings.stencilMode) return;
-
-  const NEIGHBORS_4 = [[1, 0], [-1, 0], [0, 1], [0, -1]];
-  const NEIGHBORS_8 = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+  if (!settings.stencilMode) return null;
 
   const labels = new Int32Array(w * h).fill(-1);
   let labelCount = 0;
+  const labelStats: { area: number; sumX: number; sumY: number }[] = [];
 
   for (let y = 0; y < h; y++) {
     for (let x = 0; x < w; x++) {
-      if (!mask[y][x] && labels[y * w + x] === -1) {
+      if (!mask.data[y * w + x] && labels[y * w + x] === -1) {
         const q: [number, number][] = [[x, y]];
         labels[y * w + x] = labelCount;
         let head = 0;
@@ -344,18 +586,21 @@ export function postProcessMask(mask: MaskGrid, w: number, h: number, settings:
           const [cx, cy] = q[head++];
           for (const [dx, dy] of NEIGHBORS_4) {
             const nx = cx + dx, ny = cy + dy;
-            if (nx >= 0 && ny >= 0 && nx < w && ny < h && !mask[ny][nx] && labels[ny * w + nx] === -1) {
+            if (nx >= 0 && ny >= 0 && nx < w && ny < h && !mask.data[ny * w + nx] && labels[ny * w + nx] === -1) {
               labels[ny * w + nx] = labelCount;
               q.push([nx, ny]);
             }
           }
         }
+        const stats = { area: q.length, sumX: 0, sumY: 0 };
+        for (const [px, py] of q) { stats.sumX += px; stats.sumY += py; }
+        labelStats.push(stats);
         labelCount++;
       }
     }
   }
 
-  if (labelCount === 0) return;
+  if (labelCount === 0) return null;
 
   const safeLabels = new Set<number>();
   for (let x = 0; x < w; x++) {
@@ -377,7 +622,7 @@ export function postProcessMask(mask: MaskGrid, w: number, h: number, settings:
         let isBoundary = false;
         for (const [dx, dy] of NEIGHBORS_4) {
           const nx = x + dx, ny = y + dy;
-          if (nx < 0 || ny < 0 || nx >= w || ny >= h || mask[ny][nx]) { isBoundary = true; break; }
+          if (nx < 0 || ny < 0 || nx >= w || ny >= h || mask.data[ny * w + nx]) { isBoundary = true; break; }
         }
         if (isBoundary) {
           if (!labelToBoundary.has(lbl)) labelToBoundary.set(lbl, []);
@@ -388,6 +633,33 @@ export function postProcessMask(mask: MaskGrid, w: number, h: number, settings:
   }
   labelToBoundary.forEach((boundary, label) => islands.push({ label, boundary }));
 
+  // Index of each island in the report, by label
+  const reportIndex = new Map<number, number>();
+  islands.forEach(({ label }) => {
+    const stats = labelStats[label];
+    reportIndex.set(label, report.islands.length);
+    report.islands.push({ x: stats.sumX / stats.area, y: stats.sumY / stats.area, area: stats.area, bridges: 0 });
+  });
+
+  // Locked bridges are drawn as they are and count for the island they start on. The labels are
+  // left alone, so the auto bridges of every island are placed exactly as before locking.
+  const locked = settings.lockedBridges ?? [];
+  locked.forEach(bridge => {
+    const sx = Math.round(bridge.x1), sy = Math.round(bridge.y1);
+    const label = sx >= 0 && sy >= 0 && sx < w && sy < h ? labels[sy * w + sx] : -1;
+    drawThickLine(mask, bridge.x1, bridge.y1, bridge.x2, bridge.y2, bridge.width, w, h);
+    const island = reportIndex.get(label) ?? -1;
+    if (island >= 0) report.islands[island].bridges++;
+    report.bridges.push({ ...bridge, kind: 'locked', island });
+  });
+
+  // Auto bridges passing close to a removed bridge's midpoint or a locked bridge's start are left out:
+  // the first were deleted by the user, the second are already there as locked bridges
+  const skipRadius = Math.max(3, settings.bridgeWidth * 2);
+  const skipPoints = [...(settings.removedBridges ?? []), ...locked.map(b => ({ x: b.x1, y: b.y1 }))];
+  const isSkipped = (path: [number, number][]) => skipPoints.some(r =>
+    path.some(([px, py]) => (px - r.x) * (px - r.x) + (py - r.y) * (py - r.y) <= skipRadius * skipRadius));
+
   while (islands.length > 0) {
     const distF = new Int32Array(w * h).fill(-1);
     const dq: [number, number][] = [];
@@ -444,9 +716,9 @@ export function postProcessMask(mask: MaskGrid, w: number, h: number, settings:
 
       if (startP) {
         let [cx, cy] = startP;
+        const path: [number, number][] = [];
         while (distF[cy * w + cx] > 0) {
-          const bw = settings.bridgeWidth;
-          drawThickLine(mask, cx, cy, cx, cy, bw, w, h);
+          path.push([cx, cy]);
           let nextP: [number, number] = [cx, cy];
           let dNext = distF[cy * w + cx];
           for (const [dx, dy] of NEIGHBORS_8) {
@@ -459,9 +731,70 @@ export function postProcessMask(mask: MaskGrid, w: number, h: number, settings:
           if (nextP[0] === cx && nextP[1] === cy) break;
           [cx, cy] = nextP;
         }
+        if (path.length === 0 || isSkipped(path)) continue;
+        for (const [px, py] of path) drawThickLine(mask, px, py, px, py, settings.bridgeWidth, w, h);
+        const [end] = path.slice(-1);
+        const island = reportIndex.get(targetIsland.label)!;
+        report.islands[island].bridges++;
+        report.bridges.push({ kind: 'auto', x1: startP[0], y1: startP[1], x2: end[0], y2: end[1], width: settings.bridgeWidth, island });
       }
     }
     safeLabels.add(targetIsland.label);
     islands.splice(bestIslandIdx, 1);
   }
+
+  const islandMap = new Int32Array(w * h);
+  for (let i = 0; i < w * h; i++) islandMap[i] = reportIndex.get(labels[i]) ?? -1;
+  return islandMap;
+}
+
+
+/**
+ * Black-on-white RGBA rendering of the mask for the bitmap preview.
+ */
+export function renderMaskPreview(mask: MaskGrid, w: number, h: number): Uint8ClampedArray<ArrayBuffer> {
+  const out = new Uint8ClampedArray(w * h * 4);
+  for (let i = 0; i < w * h; i++) {
+    const idx = i * 4;
+    const val = mask.data[i] ? 0 : 255;
+    out[idx] = val;
+    out[idx + 1] = val;
+    out[idx + 2] = val;
+    out[idx + 3] = 255;
+  }
+  return out;
+}
+
+/**
+ * RGBA preview of one tone band of a posterized image: the band in its #rrggbb tint,
+ * transparent elsewhere, so the bands can be drawn on top of each other.
+ */
+export function renderLayerPreview(mask: MaskGrid, w: number, h: number, tint: string): Uint8ClampedArray<ArrayBuffer> {
+  const out = new Uint8ClampedArray(w * h * 4);
+  const r = parseInt(tint.slice(1, 3), 16), g = parseInt(tint.slice(3, 5), 16), b = parseInt(tint.slice(5, 7), 16);
+  for (let i = 0; i < w * h; i++) {
+    if (!mask.data[i]) continue;
+    const idx = i * 4;
+    out[idx] = r;
+    out[idx + 1] = g;
+    out[idx + 2] = b;
+    out[idx + 3] = 255;
+  }
+  return out;
+}
+
+/**
+ * Transparent RGBA overlay that tints the light pixels of every island.
+ */
+export function renderIslandOverlay(islandMap: Int32Array, mask: MaskGrid, w: number, h: number): Uint8ClampedArray<ArrayBuffer> {
+  const out = new Uint8ClampedArray(w * h * 4);
+  for (let i = 0; i < w * h; i++) {
+    if (islandMap[i] < 0 || mask.data[i]) continue;
+    const idx = i * 4;
+    out[idx] = 56;
+    out[idx + 1] = 189;
+    out[idx + 2] = 248;
+    out[idx + 3] = 110;
+  }
+  return out;
 }
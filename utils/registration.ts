@@ -0,0 +1,29 @@
+import { PT_PER_MM } from '../constants';
+import { CutPath } from '../types';
+import { samplePrimitive } from './primitives';
+
+// Mark centres this far from the page edges, mm
+const MARK_INSET_MM = 10;
+const MARK_ARM_MM = 5;
+const MARK_RADIUS_MM = 2;
+
+/**
+ * Registration marks for lining up the layers of a posterized design: a small circle with a
+ * cross through it near the top-left, top-right and bottom-left corners of the page. The
+ * fourth corner stays empty, so a layer cannot be laid down rotated by half a turn.
+ */
+export function registrationMarks(docW: number, docH: number): CutPath[] {
+  const inset = MARK_INSET_MM * PT_PER_MM, arm = MARK_ARM_MM * PT_PER_MM;
+  const centres = [[inset, inset], [docW - inset, inset], [inset, docH - inset]];
+  const line = (x1: number, y1: number, x2: number, y2: number): CutPath => ({
+    points: [[x1, y1], [(x1 + x2) / 2, (y1 + y2) / 2], [x2, y2]], hole: false, parent: -1, closed: false
+  });
+  return centres.flatMap(([cx, cy]) => {
+    const circle = { kind: 'circle' as const, cx, cy, r: MARK_RADIUS_MM * PT_PER_MM };
+    return [
+      { points: samplePrimitive(circle, []), hole: false, parent: -1, closed: true, primitive: circle },
+      line(cx - arm, cy, cx + arm, cy),
+      line(cx, cy - arm, cx, cy + arm)
+    ];
+  });
+}
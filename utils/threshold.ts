@@ -0,0 +1,155 @@
+import { AppSettings, MaskGrid } from '../types';
+import { maskFromTest } from './mask';
+
+type ThresholdSettings = Pick<AppSettings, 'thresholdMode' | 'threshold' | 'adaptiveWindow' | 'adaptiveOffset' | 'sauvolaK'>;
+
+// Dynamic range of the standard deviation in Sauvola's formula for 8-bit images
+const SAUVOLA_R = 128;
+
+export function computeLuminance(data: Uint8ClampedArray, w: number, h: number): Float32Array {
+  const lum = new Float32Array(w * h);
+  for (let i = 0; i < w * h; i++) {
+    lum[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return lum;
+}
+
+/**
+ * Otsu's method: the global threshold that maximises the between-class variance of the histogram.
+ */
+export function otsuThreshold(lum: Float32Array): number {
+  const hist = new Float64Array(256);
+  // Bin t holds lum in [t, t + 1), so that `lum < best + 1` below is exactly the bins up to the split
+  for (let i = 0; i < lum.length; i++) hist[Math.max(0, Math.min(255, Math.floor(lum[i])))]++;
+
+  const total = lum.length;
+  let sumAll = 0;
+  for (let t = 0; t < 256; t++) sumAll += t * hist[t];
+
+  let sumBelow = 0, weightBelow = 0, bestVar = -1, best = 128;
+  for (let t = 0; t < 256; t++) {
+    weightBelow += hist[t];
+    if (weightBelow === 0) continue;
+    const weightAbove = total - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += t * hist[t];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sumAll - sumBelow) / weightAbove;
+    const betweenVar = weightBelow * weightAbove * (meanBelow - meanAbove) * (meanBelow - meanAbove);
+    if (betweenVar > bestVar) { bestVar = betweenVar; best = t; }
+  }
+  // Pixels strictly darker than the returned value are foreground, so include the split bin itself
+  return best + 1;
+}
+
+/**
+ * Summed-area table with a zero row and column, so box sums need no bounds checks.
+ */
+function integralImage(values: Float32Array, w: number, h: number, squared = false): Float64Array {
+  const W = w + 1;
+  const sat = new Float64Array(W * (h + 1));
+  for (let y = 0; y < h; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < w; x++) {
+      const v = values[y * w + x];
+      rowSum += squared ? v * v : v;
+      sat[(y + 1) * W + x + 1] = sat[y * W + x + 1] + rowSum;
+    }
+  }
+  return sat;
+}
+
+function boxSum(sat: Float64Array, w: number, x0: number, y0: number, x1: number, y1: number): number {
+  const W = w + 1;
+  return sat[y1 * W + x1] - sat[y0 * W + x1] - sat[y1 * W + x0] + sat[y0 * W + x0];
+}
+
+/**
+ * Separable Gaussian blur with the kernel clamped at the image edges.
+ */
+export function gaussianBlur(values: Float32Array, w: number, h: number, sigma: number): Float32Array {
+  if (sigma <= 0) return values.slice();
+  const radius = Math.ceil(sigma * 3);
+  const kernel = new Float32Array(radius * 2 + 1);
+  let kSum = 0;
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kSum += kernel[i + radius];
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= kSum;
+
+  const tmp = new Float32Array(w * h);
+  const out = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = Math.max(0, Math.min(w - 1, x + k));
+        acc += values[y * w + sx] * kernel[k + radius];
+      }
+      tmp[y * w + x] = acc;
+    }
+  }
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = Math.max(0, Math.min(h - 1, y + k));
+        acc += tmp[sy * w + x] * kernel[k + radius];
+      }
+      out[y * w + x] = acc;
+    }
+  }
+  return out;
+}
+
+/**
+ * The threshold of every pixel in the configured mode: the global threshold everywhere, or the
+ * local one of the adaptive modes. Pixels darker than their level are foreground. `pxPerMm`
+ * converts the adaptive window, which is set in millimetres so it does not change with the
+ * detail scale. `threshold` is the global threshold, or null for the local modes.
+ */
+export function thresholdLevels(lum: Float32Array, w: number, h: number, settings: ThresholdSettings, pxPerMm: number): { levels: Float32Array; threshold: number | null } {
+  const mode = settings.thresholdMode;
+
+  if (mode === 'manual' || mode === 'otsu') {
+    const threshold = mode === 'otsu' ? otsuThreshold(lum) : settings.threshold;
+    return { levels: new Float32Array(w * h).fill(threshold), threshold };
+  }
+
+  const radius = Math.max(1, Math.round((settings.adaptiveWindow * pxPerMm) / 2));
+
+  if (mode === 'adaptiveGaussian') {
+    const levels = gaussianBlur(lum, w, h, radius / 2);
+    for (let i = 0; i < levels.length; i++) levels[i] -= settings.adaptiveOffset;
+    return { levels, threshold: null };
+  }
+
+  const sat = integralImage(lum, w, h);
+  const satSq = mode === 'sauvola' ? integralImage(lum, w, h, true) : null;
+
+  const levels = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const x0 = Math.max(0, x - radius), x1 = Math.min(w, x + radius + 1);
+      const y0 = Math.max(0, y - radius), y1 = Math.min(h, y + radius + 1);
+      const n = (x1 - x0) * (y1 - y0);
+      const mean = boxSum(sat, w, x0, y0, x1, y1) / n;
+      if (!satSq) {
+        levels[y * w + x] = mean - settings.adaptiveOffset;
+        continue;
+      }
+      const variance = Math.max(0, boxSum(satSq, w, x0, y0, x1, y1) / n - mean * mean);
+      levels[y * w + x] = mean * (1 + settings.sauvolaK * (Math.sqrt(variance) / SAUVOLA_R - 1));
+    }
+  }
+  return { levels, threshold: null };
+}
+
+/**
+ * Binarizes a luminance image with the configured threshold mode, see thresholdLevels.
+ */
+export function binarize(lum: Float32Array, w: number, h: number, settings: ThresholdSettings, pxPerMm: number): { mask: MaskGrid; threshold: number | null; levels: Float32Array } {
+  const { levels, threshold } = thresholdLevels(lum, w, h, settings, pxPerMm);
+  return { mask: maskFromTest(w, h, idx => lum[idx] < levels[idx]), threshold, levels };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { signedArea } from './offset';
+import { bridgeRectangle, subtractConvex } from './vectorbridges';
+
+// A 30 x 30 square with a 10 x 10 hole in the middle; outer boundary positive, hole negative
+const outer = [[0, 0], [30, 0], [30, 30], [0, 30]];
+const hole = [[10, 10], [10, 20], [20, 20], [20, 10]];
+
+// A cut-out 2 wide along y = 15, reaching 5 past both ends
+const strip = (x1: number, x2: number) => bridgeRectangle({ x1, y1: 15, x2, y2: 15, width: 1 }, 5)!;
+
+const areas = (rings: number[][][] | null) => rings!.map(signedArea).sort((a, b) => a - b);
+
+describe('bridgeRectangle', () => {
+  it('runs around the bridge with negative area', () => {
+    const rect = strip(0, 30);
+    expect(signedArea(rect)).toBeCloseTo(-80, 6);
+    const xs = rect.map(p => p[0]), ys = rect.map(p => p[1]);
+    expect([Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)]).toEqual([-5, 35, 14, 16]);
+  });
+
+  it('has no rectangle without a direction', () => {
+    expect(bridgeRectangle({ x1: 5, y1: 5, x2: 5, y2: 5, width: 1 }, 2)).toBeNull();
+  });
+});
+
+describe('subtractConvex', () => {
+  it('splits a ring with a hole in two where the cut crosses both', () => {
+    // Each half keeps 30 x 14 minus 10 x 4 of the hole
+    expect(areas(subtractConvex([outer, hole], strip(0, 30)))).toEqual([expect.closeTo(380, 6), expect.closeTo(380, 6)]);
+  });
+
+  it('opens the hole to the outside where the cut crosses one side', () => {
+    const rings = subtractConvex([outer, hole], strip(0, 12));
+    expect(areas(rings)).toEqual([expect.closeTo(800 - 20, 6)]);
+  });
+
+  it('adds a hole for a cut inside the region and ignores one outside it', () => {
+    const inside = bridgeRectangle({ x1: 3, y1: 5, x2: 7, y2: 5, width: 1 }, 0)!;
+    expect(areas(subtractConvex([outer, hole], inside))).toEqual([expect.closeTo(-100, 6), expect.closeTo(-8, 6), expect.closeTo(900, 6)]);
+    const outside = bridgeRectangle({ x1: 40, y1: 5, x2: 50, y2: 5, width: 1 }, 0)!;
+    expect(subtractConvex([outer, hole], outside)).toEqual([outer, hole]);
+  });
+});
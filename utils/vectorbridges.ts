@@ -0,0 +1,217 @@
+import { BridgeSegment, CutPath } from '../types';
+import { signedArea } from './offset';
+
+interface Box { minX: number; minY: number; maxX: number; maxY: number }
+
+// A ring of the dark region: outer boundaries run with positive signed area, holes with negative
+interface Ring { points: number[][]; box: Box; orig: number }
+
+// Where a ring edge crosses the rectangle; `id` links the same point on both boundaries
+interface Crossing { id: number; t: number; point: number[] }
+
+const boxOf = (points: number[][]): Box => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const [x, y] of points) {
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  }
+  return { minX, minY, maxX, maxY };
+};
+
+const boxesOverlap = (a: Box, b: Box) => a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+
+function pointInRing(p: number[], ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i], [xj, yj] = ring[j];
+    if ((yi > p[1]) !== (yj > p[1]) && p[0] < ((xj - xi) * (p[1] - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+// Convex polygon with negative signed area: the inside is on the right of every edge
+function pointInConvex(p: number[], poly: number[][]): boolean {
+  for (let i = 0; i < poly.length; i++) {
+    const a = poly[i], b = poly[(i + 1) % poly.length];
+    if ((b[0] - a[0]) * (p[1] - a[1]) - (b[1] - a[1]) * (p[0] - a[0]) > 0) return false;
+  }
+  return true;
+}
+
+/**
+ * The cut-out of a bridge: a rectangle `2 * (width + grow)` wide around the bridge's centre
+ * line, reaching `extend` past both ends so it crosses the dark region completely. Returned
+ * with negative signed area; null for bridges without a direction.
+ */
+export function bridgeRectangle(bridge: BridgeSegment, extend: number, grow = 0): number[][] | null {
+  const len = Math.hypot(bridge.x2 - bridge.x1, bridge.y2 - bridge.y1);
+  const half = bridge.width + grow;
+  if (len < 1e-9 || half <= 0) return null;
+  const dx = (bridge.x2 - bridge.x1) / len, dy = (bridge.y2 - bridge.y1) / len;
+  const x1 = bridge.x1 - dx * extend, y1 = bridge.y1 - dy * extend;
+  const x2 = bridge.x2 + dx * extend, y2 = bridge.y2 + dy * extend;
+  const rect = [
+    [x1 - dy * half, y1 + dx * half],
+    [x2 - dy * half, y2 + dx * half],
+    [x2 + dy * half, y2 - dx * half],
+    [x1 + dy * half, y1 - dx * half]
+  ];
+  return signedArea(rect) > 0 ? rect.reverse() : rect;
+}
+
+/**
+ * Subtracts a convex polygon (negative signed area) from the even-odd region bounded by
+ * `rings`. Boundary pieces outside the polygon are kept, together with the parts of the
+ * polygon's own boundary inside the region, and stitched back into rings at the crossings.
+ * Returns null when the pieces do not close up (touching or collinear edges), so the caller
+ * can leave the region as it was.
+ */
+export function subtractConvex(rings: number[][][], clip: number[][]): number[][][] | null {
+  let nextId = 0;
+  const clipCrossings: Crossing[][] = clip.map(() => []);
+  const ringCrossings: Crossing[][][] = rings.map(ring => ring.map(() => []));
+
+  rings.forEach((ring, r) => {
+    for (let i = 0; i < ring.length; i++) {
+      const a = ring[i], b = ring[(i + 1) % ring.length];
+      for (let k = 0; k < clip.length; k++) {
+        const c = clip[k], d = clip[(k + 1) % clip.length];
+        const ex = b[0] - a[0], ey = b[1] - a[1], fx = d[0] - c[0], fy = d[1] - c[1];
+        const denom = ex * fy - ey * fx;
+        if (denom === 0) continue;
+        const t = ((c[0] - a[0]) * fy - (c[1] - a[1]) * fx) / denom;
+        const u = ((c[0] - a[0]) * ey - (c[1] - a[1]) * ex) / denom;
+        // Half-open on both edges, so a crossing through a vertex is counted once
+        if (t < 0 || t >= 1 || u < 0 || u >= 1) continue;
+        const point = [a[0] + ex * t, a[1] + ey * t];
+        const id = nextId++;
+        ringCrossings[r][i].push({ id, t, point });
+        clipCrossings[k].push({ id, t: u, point });
+      }
+    }
+  });
+
+  // Chains of boundary between consecutive crossings, keyed by the crossing they start at
+  const chains = new Map<number, { end: number; points: number[][] }>();
+  const out: number[][][] = [];
+
+  const splitBoundary = (poly: number[][], crossings: Crossing[][], keep: (p: number[]) => boolean) => {
+    crossings.forEach(list => list.sort((p, q) => p.t - q.t));
+    const flat: { point: number[]; id: number }[] = [];
+    poly.forEach((p, i) => {
+      flat.push({ point: p, id: -1 });
+      crossings[i].forEach(c => flat.push({ point: c.point, id: c.id }));
+    });
+    const first = flat.findIndex(v => v.id >= 0);
+    if (first < 0) return false;
+    const n = flat.length;
+    let current: number[][] = [flat[first].point];
+    let startId = flat[first].id;
+    for (let s = 1; s <= n; s++) {
+      const v = flat[(first + s) % n];
+      current.push(v.point);
+      if (v.id < 0) continue;
+      const a = current[0], b = current[1];
+      if (keep([(a[0] + b[0]) / 2, (a[1] + b[1]) / 2])) chains.set(startId, { end: v.id, points: current });
+      current = [v.point];
+      startId = v.id;
+    }
+    return true;
+  };
+
+  const insideRegion = (p: number[]) => rings.reduce((inside, ring) => pointInRing(p, ring) !== inside, false);
+
+  rings.forEach((ring, r) => {
+    // Untouched rings stay when outside the polygon and vanish when inside it
+    if (!splitBoundary(ring, ringCrossings[r], p => !pointInConvex(p, clip)) && !pointInConvex(ring[0], clip)) out.push(ring);
+  });
+  if (!splitBoundary(clip, clipCrossings, insideRegion)) {
+    // A polygon wholly inside the region becomes a new hole
+    if (insideRegion(clip[0])) out.push(clip);
+    return out;
+  }
+
+  const used = new Set<number>();
+  for (const start of chains.keys()) {
+    if (used.has(start)) continue;
+    const ring: number[][] = [];
+    let id = start;
+    while (!used.has(id)) {
+      const chain = chains.get(id);
+      if (!chain) return null;
+      used.add(id);
+      ring.push(...chain.points.slice(0, -1));
+      id = chain.end;
+    }
+    if (id !== start) return null;
+    if (ring.length >= 3) out.push(ring);
+  }
+  return out;
+}
+
+/**
+ * Cuts the bridge rectangles out of the closed (already flattened) paths and rebuilds the
+ * hole flags and parents of everything that changed. A bridge across a dark ring merges the
+ * island inside it with the sheet outside, so rings can merge, split or appear. Open paths
+ * are left as they are.
+ */
+export function cutVectorBridges(paths: CutPath[], rects: number[][][]): CutPath[] {
+  let rings: Ring[] = [];
+  paths.forEach((path, i) => {
+    if (!path.closed || path.points.length < 3) return;
+    const outward = signedArea(path.points) > 0 !== path.hole;
+    rings.push({ points: outward ? path.points : path.points.slice().reverse(), box: boxOf(path.points), orig: i });
+  });
+
+  for (const rect of rects) {
+    const box = boxOf(rect);
+    const affected = rings.filter(r => boxesOverlap(r.box, box));
+    if (!affected.length) continue;
+    const result = subtractConvex(affected.map(r => r.points), rect);
+    if (!result) continue;
+    // Rings that came through unchanged keep their identity, so their parents can be kept too
+    const replaced: Ring[] = result.map(points => affected.find(r => r.points === points) ?? { points, box: boxOf(points), orig: -1 });
+    const at = rings.indexOf(affected[0]);
+    rings = rings.filter(r => !affected.includes(r));
+    rings.splice(at, 0, ...replaced);
+  }
+
+  return rebuildCutPaths(paths, rings);
+}
+
+/**
+ * Closed paths for the rings of a dark region (outer boundaries with positive signed area,
+ * holes negative) followed by the open paths. Rings that came through unchanged from
+ * `paths[orig]` keep its parent and primitive; the parent of the others is the smallest ring
+ * around them.
+ */
+export function rebuildCutPaths(paths: CutPath[], pieces: { points: number[][]; orig: number }[]): CutPath[] {
+  const rings: Ring[] = pieces.map(r => ({ ...r, box: boxOf(r.points) }));
+  const areas = rings.map(r => signedArea(r.points));
+  const indexOfOrig = new Map<number, number>();
+  rings.forEach((r, i) => { if (r.orig >= 0) indexOfOrig.set(r.orig, i); });
+
+  // The smallest ring around a ring's first vertex is its parent
+  const enclosing = (i: number) => {
+    const p = rings[i].points[0];
+    let best = -1, bestArea = Infinity;
+    rings.forEach((r, j) => {
+      if (j === i || Math.abs(areas[j]) >= bestArea || Math.abs(areas[j]) <= Math.abs(areas[i])) return;
+      if (p[0] < r.box.minX || p[0] > r.box.maxX || p[1] < r.box.minY || p[1] > r.box.maxY) return;
+      if (pointInRing(p, r.points)) { best = j; bestArea = Math.abs(areas[j]); }
+    });
+    return best;
+  };
+
+  const closed: CutPath[] = rings.map((r, i) => {
+    const origParent = r.orig >= 0 ? paths[r.orig].parent : -2;
+    const parent = origParent === -1 ? -1 : origParent >= 0 && indexOfOrig.has(origParent) ? indexOfOrig.get(origParent)! : enclosing(i);
+    // Unchanged rings keep their circle or ellipse as well
+    const primitive = r.orig >= 0 ? paths[r.orig].primitive : undefined;
+    return { points: r.points, hole: areas[i] < 0, parent, closed: true, ...(primitive ? { primitive } : {}) };
+  });
+  const open = paths.filter(p => !p.closed || p.points.length < 3).map(p => ({ ...p, parent: -1 }));
+  return [...closed, ...open];
+}